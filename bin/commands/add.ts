@@ -1,31 +1,231 @@
 import boxen from "boxen";
-import { addTailwind } from "./add/tailwind.ts";
-import { addShadcn } from "./add/shadcn.ts";
-import { addTest } from "./add/test.ts";
-
-export async function addCommand(module: string) {
-    switch (module.toLowerCase()) {
-        case "tailwind":
-            await addTailwind();
-            break;
-        case "shadcn":
-            await addShadcn();
-            break;
-        case "test":
-            await addTest();
-            break;
-        default:
-            console.error(
-                boxen(
-                    `❌ Unknown module: ${module}\n\nAvailable modules:\n  - tailwind\n  - shadcn\n  - test`,
-                    {
-                        padding: 1,
-                        margin: 1,
-                        borderStyle: "round",
-                        borderColor: "red",
-                    }
-                )
-            );
-            process.exit(1);
+import { printDryRunSummary, setChangeMode } from "../utils/changes.ts";
+import {
+    findModule,
+    loadModules,
+    moduleContext,
+    orderModules,
+    type PxModule,
+    type RegisteredModule,
+} from "../utils/modules.ts";
+import { installQueued, queueInstalls } from "../utils/packages.ts";
+import { findProjectRoot } from "../utils/project.ts";
+import { promptMode, whyNotAsking } from "../utils/prompt.ts";
+import { runTransaction } from "../utils/transaction.ts";
+import { frontendModules } from "./add/frontend.ts";
+import { shadcnModule } from "./add/shadcn.ts";
+import { storeModule } from "./add/store.ts";
+import { tailwindModule } from "./add/tailwind.ts";
+import { testModule } from "./add/test.ts";
+
+// The modules px ships with
+export const BUILTIN_MODULES: PxModule[] = [
+    tailwindModule,
+    shadcnModule,
+    testModule,
+    storeModule,
+    ...frontendModules,
+];
+
+// Built-in modules plus those installed or kept in .px/modules
+export function availableModules(projectRoot: string): Promise<RegisteredModule[]> {
+    return loadModules(projectRoot, BUILTIN_MODULES);
+}
+
+// Exit with the list of modules when a name doesn't match any
+export function unknownModule(module: string, modules: RegisteredModule[]): never {
+    console.error(
+        boxen(
+            `❌ Unknown module: ${module}\n\nAvailable modules:\n${modules
+                .map(({ module }) => `  - ${module.name}`)
+                .join("\n")}\n\nRun \`px add --list\` for details.`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "red",
+            }
+        )
+    );
+    process.exit(1);
+}
+
+// Whether a module is set up. A broken detect() just reads as not set up.
+export async function isSetUp(module: PxModule, projectRoot: string): Promise<boolean> {
+    try {
+        return await module.detect(projectRoot);
+    } catch {
+        return false;
+    }
+}
+
+// Print every available module, whether it's set up and where it comes from
+async function listModules(projectRoot: string, modules: RegisteredModule[]) {
+    const width = Math.max(...modules.map(({ module }) => module.name.length));
+
+    const lines: string[] = [];
+    for (const { module, source } of modules) {
+        const installed = await isSetUp(module, projectRoot);
+        const notes = [
+            source !== "built-in" && `from ${source}`,
+            module.dependencies?.length && `needs ${module.dependencies.join(", ")}`,
+        ].filter(Boolean);
+
+        lines.push(
+            `${installed ? "✅" : "⬜"} ${module.name.padEnd(width)}  ${module.description}${
+                notes.length > 0 ? ` (${notes.join("; ")})` : ""
+            }`
+        );
+    }
+
+    console.log(`\n📦 Modules for ${projectRoot}\n`);
+    console.log(lines.join("\n"));
+    console.log(
+        "\n✅ set up   ⬜ not set up\n💡 Add your own as px-module-* packages or in .px/modules"
+    );
+}
+
+export interface AddOptions {
+    // Print the diffs and install commands, change nothing
+    dryRun?: boolean;
+    // Ask before writing each file
+    interactive?: boolean;
+    // List the available modules instead
+    list?: boolean;
+    // px add shadcn: react or svelte, when config/app.ts has both
+    framework?: string;
+    // px add test: set up Vitest and/or Playwright without asking
+    unit?: boolean;
+    e2e?: boolean;
+    // px add store: the database driver
+    driver?: string;
+}
+
+// Add modules, each after those it depends on. Modules already set up are
+// skipped; with several to run, their packages are installed in one step at
+// the end.
+export async function addCommand(names: string[], options: AddOptions = {}) {
+    const projectRoot = findProjectRoot(process.cwd());
+    const modules = await availableModules(projectRoot);
+
+    if (options.list || names.length === 0) {
+        await listModules(projectRoot, modules);
+        return;
+    }
+
+    const requested = new Set<RegisteredModule>();
+    for (const name of names) {
+        requested.add(findModule(modules, name) ?? unknownModule(name, modules));
+    }
+
+    if (options.dryRun && options.interactive) {
+        console.error("❌ --dry-run can't be combined with --interactive");
+        process.exit(1);
+    }
+    if (options.interactive && promptMode() !== "ask") {
+        console.error(`❌ --interactive asks before each change, but px won't ask: ${whyNotAsking()}`);
+        process.exit(1);
+    }
+
+    const pending: RegisteredModule[] = [];
+    const skipped: string[] = [];
+    for (const entry of orderModules(modules, Array.from(requested))) {
+        if (await isSetUp(entry.module, projectRoot)) {
+            skipped.push(entry.module.name);
+        } else {
+            pending.push(entry);
+        }
+    }
+
+    if (pending.length === 0) {
+        console.log(`✅ Already set up: ${skipped.join(", ")}. Nothing to add.`);
+        return;
     }
+    if (skipped.length > 0) {
+        console.log(`⏭️  Already set up, skipping: ${skipped.join(", ")}`);
+    }
+
+    const label = `add ${pending.map(({ module }) => module.name).join(" ")}`;
+    const files = pending.flatMap(({ module }) => module.files ?? []);
+    const context = moduleContext(projectRoot, {
+        flags: {
+            framework: options.framework,
+            unit: options.unit,
+            e2e: options.e2e,
+            driver: options.driver,
+        },
+    });
+
+    // Returns the packages installed in the merged step
+    const run = async (): Promise<string[]> => {
+        if (pending.length === 1) {
+            await pending[0]!.module.install(context);
+            return [];
+        }
+
+        queueInstalls(true);
+        try {
+            for (const [index, { module }] of pending.entries()) {
+                console.log(`\n🧩 ${module.name} (${index + 1}/${pending.length})`);
+                await module.install(context);
+            }
+            console.log("\n📦 Installing packages for all modules...");
+            return await installQueued(projectRoot, context.manager);
+        } finally {
+            queueInstalls(false);
+        }
+    };
+
+    if (options.dryRun) {
+        // Nothing is written, so there's nothing to roll back
+        setChangeMode("dry-run");
+        try {
+            await run();
+            printDryRunSummary(label);
+        } finally {
+            setChangeMode("write");
+        }
+        return;
+    }
+
+    // All the modules run as one transaction, rolled back if any fails halfway
+    setChangeMode(options.interactive ? "interactive" : "write");
+    let installed: string[];
+    try {
+        installed = await runTransaction(projectRoot, label, files, run);
+    } finally {
+        setChangeMode("write");
+    }
+
+    if (pending.length + skipped.length > 1) {
+        printSummary(pending, skipped, installed, context.manager);
+    }
+}
+
+// Sum up a px add that covered several modules
+function printSummary(
+    added: RegisteredModule[],
+    skipped: string[],
+    installed: string[],
+    manager: string
+) {
+    const lines = [`✅ Added ${added.map(({ module }) => module.name).join(", ")}`];
+    if (skipped.length > 0) {
+        lines.push(`⏭️  Already set up: ${skipped.join(", ")}`);
+    }
+    if (installed.length > 0) {
+        lines.push(
+            `📦 Installed ${installed.length} package${installed.length === 1 ? "" : "s"} with ${manager}`
+        );
+    }
+    lines.push("", "🚀 Run 'px run' to start your Primate project");
+
+    console.log(
+        boxen(lines.join("\n"), {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "green",
+        })
+    );
 }
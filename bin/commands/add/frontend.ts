@@ -0,0 +1,273 @@
+import boxen from "boxen";
+import ora from "ora";
+import { join } from "path";
+import {
+    addModule,
+    APP_CONFIG_FILE,
+    configuredModules,
+    hasModule,
+    readAppConfig,
+    removeModule,
+    writeAppConfig,
+} from "../../utils/app-config.ts";
+import {
+    changeMode,
+    projectFileExists,
+    readProjectFile,
+    removeGeneratedFile,
+    writeProjectFile,
+} from "../../utils/changes.ts";
+import type { PxModule } from "../../utils/modules.ts";
+import {
+    installPackages,
+    removablePackages,
+    uninstallPackages,
+} from "../../utils/packages.ts";
+import { detectManager, findProjectRoot } from "../../utils/project.ts";
+import { FRONTEND_EXTENSIONS, FRONTEND_PEERS } from "../../utils/rules.ts";
+import { isTailwindSetup, widenTailwindContent } from "./tailwind.ts";
+import { routeContent } from "./templates/frontend/route.ts";
+import {
+    angularViewContent,
+    handlebarsViewContent,
+    htmxViewContent,
+    markdownViewContent,
+    reactViewContent,
+    solidViewContent,
+    svelteViewContent,
+    vueViewContent,
+} from "./templates/frontend/views.ts";
+
+// A Primate frontend px add <name> sets up
+interface Frontend {
+    // The module's name, and @primate/<name>
+    name: string;
+    // How messages and the sample page name it
+    label: string;
+    // The sample view
+    view: string;
+}
+
+const FRONTENDS: Frontend[] = [
+    { name: "react", label: "React", view: reactViewContent },
+    { name: "svelte", label: "Svelte", view: svelteViewContent },
+    { name: "vue", label: "Vue", view: vueViewContent },
+    { name: "solid", label: "Solid", view: solidViewContent },
+    { name: "angular", label: "Angular", view: angularViewContent },
+    { name: "htmx", label: "htmx", view: htmxViewContent },
+    { name: "markdown", label: "Markdown", view: markdownViewContent },
+    { name: "handlebars", label: "Handlebars", view: handlebarsViewContent },
+];
+
+// What px add <frontend> installs
+function frontendPackages({ name }: Frontend): string[] {
+    return [`@primate/${name}`, ...FRONTEND_PEERS[name]!];
+}
+
+// The sample view (under views/, as the route names it) and route
+function sampleFiles({ name }: Frontend): { view: string; route: string } {
+    const component = `${name[0]!.toUpperCase()}${name.slice(1)}Example`;
+    return {
+        view: `${component}${FRONTEND_EXTENSIONS[name]}`,
+        route: join("routes", `${name}-example.ts`),
+    };
+}
+
+// Files px add <frontend> may create or change, besides package.json and the lockfile
+function frontendFiles(frontend: Frontend): string[] {
+    const { view, route } = sampleFiles(frontend);
+    return [APP_CONFIG_FILE, "tailwind.config.js", join("views", view), route];
+}
+
+// Check if the frontend is in config/app.ts
+function isFrontendSetup(projectRoot: string, { name }: Frontend): boolean {
+    return hasModule(readAppConfig(projectRoot), `@primate/${name}`);
+}
+
+async function addFrontend(frontend: Frontend) {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const { name, label } = frontend;
+
+    console.log(
+        boxen(`🧩 Setting up ${label} for Primate`, {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "blue",
+        })
+    );
+
+    console.log(`📂 Project root: ${projectRoot}`);
+    console.log(`📋 Package manager: ${manager}\n`);
+
+    // Step 1: Install @primate/<frontend> and its peers
+    const spinner = ora(`Installing ${label} and dependencies...`).start();
+
+    try {
+        const installed = await installPackages(
+            projectRoot,
+            frontendPackages(frontend),
+            manager
+        );
+        if (installed) {
+            spinner.succeed(`Installed ${label} dependencies`);
+        } else {
+            spinner.stop();
+        }
+    } catch (error) {
+        spinner.fail("Failed to install dependencies");
+        throw error;
+    }
+
+    // Step 2: Add the module to config/app.ts, creating it if needed
+    const appConfig = readAppConfig(projectRoot);
+    const created = !appConfig.exists;
+    const result = addModule(appConfig, `@primate/${name}`);
+    // Declined in --interactive mode counts as not updated
+    const written = result === "changed" && (await writeAppConfig(appConfig));
+    const appConfigUpdated = result === "unchanged" || written;
+
+    if (written) {
+        console.log(
+            created
+                ? `✅ Created config/app.ts with the ${name} module`
+                : `✅ Updated config/app.ts to include @primate/${name} module`
+        );
+    } else if (result === "unchanged") {
+        console.log(`⚠️  config/app.ts already includes @primate/${name}`);
+    }
+
+    // Two frontends can't both claim an extension (React and Solid: .jsx)
+    const extension = FRONTEND_EXTENSIONS[name]!;
+    const clashing = configuredModules(readAppConfig(projectRoot))
+        .map(({ source }) => source.slice("@primate/".length))
+        .filter((other) => other !== name && FRONTEND_EXTENSIONS[other] === extension);
+    if (clashing.length > 0) {
+        console.log(
+            `⚠️  ${clashing.join(", ")} also renders ${extension} views; give one of them other extensions in config/app.ts`
+        );
+    }
+
+    // Step 3: Let Tailwind see classes in the new views
+    const tailwindConfigPath = join(projectRoot, "tailwind.config.js");
+    const tailwindConfig = readProjectFile(tailwindConfigPath);
+    if (tailwindConfig !== null && isTailwindSetup(projectRoot)) {
+        const globExtension = extension.split(".").pop()!;
+        const widened = widenTailwindContent(tailwindConfig, [globExtension]);
+        if (
+            widened !== tailwindConfig &&
+            (await writeProjectFile(projectRoot, tailwindConfigPath, widened))
+        ) {
+            console.log(`✅ Added .${globExtension} to the content globs in tailwind.config.js`);
+        }
+    }
+
+    // Step 4: Create a sample view and the route that renders it
+    const { view, route } = sampleFiles(frontend);
+    const samples: [string, string][] = [
+        [join("views", view), frontend.view],
+        [route, routeContent(view, label)],
+    ];
+    for (const [file, content] of samples) {
+        if (projectFileExists(join(projectRoot, file))) {
+            console.log(`⚠️  ${file} already exists, skipping...`);
+        } else if (await writeProjectFile(projectRoot, file, content)) {
+            console.log(`✅ Created ${file}`);
+        }
+    }
+
+    if (changeMode() === "dry-run") return;
+
+    // Final success message
+    const manualStepMsg = !appConfigUpdated
+        ? `⚠️  Manual step required:\n   Add ${name} module to config/app.ts\n\n`
+        : "";
+
+    console.log(
+        boxen(
+            `✅ ${label} setup complete!
+
+${manualStepMsg}👀 Sample page: /${name}-example (views/${view})
+
+🚀 Run 'px run' to start your Primate project
+📚 Primate docs: https://primate.run`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "green",
+            }
+        )
+    );
+}
+
+// Undo px add <frontend>. The sample view and route are kept if edited since,
+// unless force is set; returns the ones that were. Tailwind's content globs
+// keep the extension.
+async function removeFrontend(frontend: Frontend, force: boolean): Promise<string[]> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const { name, label } = frontend;
+    const kept: string[] = [];
+
+    console.log(
+        boxen(`🧹 Removing ${label}`, {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "blue",
+        })
+    );
+
+    // Step 1: Remove the module from config/app.ts
+    const appConfig = readAppConfig(projectRoot);
+    const result = removeModule(appConfig, `@primate/${name}`);
+    if (result === "changed" && (await writeAppConfig(appConfig))) {
+        console.log(`✅ Removed @primate/${name} from config/app.ts`);
+    } else if (result === "unsupported") {
+        kept.push(APP_CONFIG_FILE);
+    }
+
+    // Step 2: Delete the sample view and route
+    const { view, route } = sampleFiles(frontend);
+    const samples: [string, string][] = [
+        [join("views", view), frontend.view],
+        [route, routeContent(view, label)],
+    ];
+    for (const [file, content] of samples) {
+        const removed = removeGeneratedFile(projectRoot, file, [content], force);
+        if (removed === "removed") {
+            console.log(`✅ Removed ${file}`);
+        } else if (removed === "edited") {
+            kept.push(file);
+        }
+    }
+
+    // Step 3: Uninstall the packages px add installed, except peers another
+    // frontend still needs and those still imported
+    const others = configuredModules(readAppConfig(projectRoot))
+        .map(({ source }) => source.slice("@primate/".length))
+        .filter((other) => other !== name && other in FRONTEND_PEERS);
+    const shared = new Set(others.flatMap((other) => FRONTEND_PEERS[other]!));
+    const packages = removablePackages(
+        projectRoot,
+        name,
+        frontendPackages(frontend).filter((pkg) => !shared.has(pkg))
+    );
+    if (packages.length > 0) {
+        await uninstallPackages(projectRoot, packages, manager);
+    }
+
+    return kept;
+}
+
+// One module per frontend: px add react, px add svelte, ...
+export const frontendModules: PxModule[] = FRONTENDS.map((frontend) => ({
+    name: frontend.name,
+    description: `${frontend.label} views, through @primate/${frontend.name}`,
+    files: frontendFiles(frontend),
+    detect: (projectRoot) => isFrontendSetup(projectRoot, frontend),
+    install: () => addFrontend(frontend),
+    remove: ({ force }) => removeFrontend(frontend, force),
+}));
@@ -1,35 +1,83 @@
 import boxen from "boxen";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import ora from "ora";
 import { join } from "path";
 import { select } from "@inquirer/prompts";
-import { installPackages } from "../../utils/packages.ts";
+import { hasModule, readAppConfig } from "../../utils/app-config.ts";
+import {
+    changeMode,
+    projectFileExists,
+    readProjectFile,
+    removeGeneratedFile,
+    writeProjectFile,
+} from "../../utils/changes.ts";
+import type { PxModule } from "../../utils/modules.ts";
+import {
+    installPackages,
+    removablePackages,
+    uninstallPackages,
+} from "../../utils/packages.ts";
 import { detectManager, findProjectRoot } from "../../utils/project.ts";
-import { addTailwind, isTailwindSetup } from "./tailwind.ts";
+import { ask } from "../../utils/prompt.ts";
+import {
+    reactComponentsJsonContent,
+    svelteComponentsJsonContent,
+} from "./templates/shadcn/components-json.ts";
+import { reactCssContent } from "./templates/shadcn/react-css.ts";
+import { svelteCssContent } from "./templates/shadcn/svelte-css.ts";
+import { reactUtilsContent, svelteUtilsContent } from "./templates/shadcn/utils.ts";
+import { masterCssContent } from "./templates/tailwind/master-css.ts";
 
 type Framework = "react" | "svelte";
 
-// Detect which framework is being used
-function detectFramework(projectRoot: string): Framework | null {
-    const appConfigPath = join(projectRoot, "config", "app.ts");
-    if (!existsSync(appConfigPath)) {
-        return null;
-    }
+// Files px add shadcn may create or change. Tailwind is set up before it by
+// px add, as a dependency.
+export const SHADCN_FILES = [
+    "components.json",
+    join("components", "lib", "utils.js"),
+    join("static", "master.css"),
+];
+
+// What the shadcn/ui setup for each framework installs
+export const REACT_PACKAGES = [
+    "class-variance-authority",
+    "clsx",
+    "tailwind-merge",
+    "lucide-react",
+    "tw-animate-css",
+];
+export const SVELTE_PACKAGES = [
+    "tailwind-variants",
+    "clsx",
+    "tailwind-merge",
+    "tw-animate-css",
+    "@lucide/svelte",
+];
 
-    const config = readFileSync(appConfigPath, "utf-8");
-    const hasReact = config.includes("@primate/react");
-    const hasSvelte = config.includes("@primate/svelte");
+// Detect which framework is being used
+export function detectFramework(projectRoot: string): Framework | "both" | null {
+    const config = readAppConfig(projectRoot);
+    const hasReact = hasModule(config, "@primate/react");
+    const hasSvelte = hasModule(config, "@primate/svelte");
 
     if (hasReact && hasSvelte) {
-        return "both" as any; // Will be handled by asking user
+        return "both"; // Will be handled by asking user
     }
     if (hasReact) return "react";
     if (hasSvelte) return "svelte";
     return null;
 }
 
-// Ask user which framework to use
+// Ask user which framework to use, unless --yes or --non-interactive
 async function askFramework(): Promise<Framework> {
+    return ask({
+        about: "which framework to set shadcn/ui up for",
+        flags: ["--framework react", "--framework svelte"],
+        fallback: { value: "react", label: "React" },
+        prompt: promptFramework,
+    });
+}
+
+async function promptFramework(): Promise<Framework> {
     const answer = await select({
         message: "Both React and Svelte detected. Which framework do you want to use for shadcn?",
         choices: [
@@ -49,7 +97,14 @@ async function askFramework(): Promise<Framework> {
     return answer;
 }
 
-export async function addShadcn() {
+// Set up shadcn/ui; framework is --framework, asked for when config/app.ts
+// has both React and Svelte
+export async function addShadcn(requested?: string) {
+    if (requested !== undefined && requested !== "react" && requested !== "svelte") {
+        console.error(`❌ Unknown framework: ${requested} (use react or svelte)`);
+        process.exit(1);
+    }
+
     const projectRoot = findProjectRoot(process.cwd());
     const manager = detectManager(projectRoot);
 
@@ -65,24 +120,28 @@ export async function addShadcn() {
     console.log(`📂 Project root: ${projectRoot}`);
     console.log(`📋 Package manager: ${manager}\n`);
 
-    // Step 1: Ensure Tailwind is setup
-    if (!isTailwindSetup(projectRoot)) {
-        console.log("📦 Tailwind not detected, setting it up first...\n");
-        await addTailwind();
-        console.log(""); // Spacing
-    } else {
-        console.log("✅ Tailwind already setup\n");
-    }
-
-    // Step 2: Detect framework
+    // Step 1: Detect framework
     let framework = detectFramework(projectRoot);
 
-    if (framework === ("both" as any)) {
-        framework = await askFramework();
+    if (framework === "both") {
+        framework = requested ?? (await askFramework());
+    } else if (framework && requested && framework !== requested) {
+        console.error(
+            boxen(
+                `❌ --framework ${requested}, but config/app.ts only has @primate/${framework}`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
     } else if (!framework) {
         console.error(
             boxen(
-                "❌ Could not detect React or Svelte in config/app.ts\n\nPlease ensure you have @primate/react or @primate/svelte configured.",
+                "❌ Could not detect React or Svelte in config/app.ts\n\nRun `px add react` or `px add svelte` first, or `px add react shadcn`.",
                 {
                     padding: 1,
                     margin: 1,
@@ -110,18 +169,16 @@ async function setupShadcnReact(projectRoot: string, manager: string) {
     ).start();
 
     try {
-        await installPackages(
+        const installed = await installPackages(
             projectRoot,
-            [
-                "class-variance-authority",
-                "clsx",
-                "tailwind-merge",
-                "lucide-react",
-                "tw-animate-css",
-            ],
+            REACT_PACKAGES,
             manager as any
         );
-        spinner.succeed("Installed shadcn/ui dependencies");
+        if (installed) {
+            spinner.succeed("Installed shadcn/ui dependencies");
+        } else {
+            spinner.stop();
+        }
     } catch (error) {
         spinner.fail("Failed to install dependencies");
         throw error;
@@ -129,181 +186,25 @@ async function setupShadcnReact(projectRoot: string, manager: string) {
 
     // Step 2: Update master.css
     const cssPath = join(projectRoot, "static", "master.css");
-    const reactCssContent = `@import "tailwindcss";
-@import "tw-animate-css";
-
-@custom-variant dark (&:is(.dark *));
-
-:root {
-  --background: oklch(1 0 0);
-  --foreground: oklch(0.145 0 0);
-  --card: oklch(1 0 0);
-  --card-foreground: oklch(0.145 0 0);
-  --popover: oklch(1 0 0);
-  --popover-foreground: oklch(0.145 0 0);
-  --primary: oklch(0.205 0 0);
-  --primary-foreground: oklch(0.985 0 0);
-  --secondary: oklch(0.97 0 0);
-  --secondary-foreground: oklch(0.205 0 0);
-  --muted: oklch(0.97 0 0);
-  --muted-foreground: oklch(0.556 0 0);
-  --accent: oklch(0.97 0 0);
-  --accent-foreground: oklch(0.205 0 0);
-  --destructive: oklch(0.577 0.245 27.325);
-  --destructive-foreground: oklch(0.577 0.245 27.325);
-  --border: oklch(0.922 0 0);
-  --input: oklch(0.922 0 0);
-  --ring: oklch(0.708 0 0);
-  --chart-1: oklch(0.646 0.222 41.116);
-  --chart-2: oklch(0.6 0.118 184.704);
-  --chart-3: oklch(0.398 0.07 227.392);
-  --chart-4: oklch(0.828 0.189 84.429);
-  --chart-5: oklch(0.769 0.188 70.08);
-  --radius: 0.625rem;
-  --sidebar: oklch(0.985 0 0);
-  --sidebar-foreground: oklch(0.145 0 0);
-  --sidebar-primary: oklch(0.205 0 0);
-  --sidebar-primary-foreground: oklch(0.985 0 0);
-  --sidebar-accent: oklch(0.97 0 0);
-  --sidebar-accent-foreground: oklch(0.205 0 0);
-  --sidebar-border: oklch(0.922 0 0);
-  --sidebar-ring: oklch(0.708 0 0);
-}
-
-.dark {
-  --background: oklch(0.145 0 0);
-  --foreground: oklch(0.985 0 0);
-  --card: oklch(0.145 0 0);
-  --card-foreground: oklch(0.985 0 0);
-  --popover: oklch(0.145 0 0);
-  --popover-foreground: oklch(0.985 0 0);
-  --primary: oklch(0.985 0 0);
-  --primary-foreground: oklch(0.205 0 0);
-  --secondary: oklch(0.269 0 0);
-  --secondary-foreground: oklch(0.985 0 0);
-  --muted: oklch(0.269 0 0);
-  --muted-foreground: oklch(0.708 0 0);
-  --accent: oklch(0.269 0 0);
-  --accent-foreground: oklch(0.985 0 0);
-  --destructive: oklch(0.396 0.141 25.723);
-  --destructive-foreground: oklch(0.637 0.237 25.331);
-  --border: oklch(0.269 0 0);
-  --input: oklch(0.269 0 0);
-  --ring: oklch(0.439 0 0);
-  --chart-1: oklch(0.488 0.243 264.376);
-  --chart-2: oklch(0.696 0.17 162.48);
-  --chart-3: oklch(0.769 0.188 70.08);
-  --chart-4: oklch(0.627 0.265 303.9);
-  --chart-5: oklch(0.645 0.246 16.439);
-  --sidebar: oklch(0.205 0 0);
-  --sidebar-foreground: oklch(0.985 0 0);
-  --sidebar-primary: oklch(0.488 0.243 264.376);
-  --sidebar-primary-foreground: oklch(0.985 0 0);
-  --sidebar-accent: oklch(0.269 0 0);
-  --sidebar-accent-foreground: oklch(0.985 0 0);
-  --sidebar-border: oklch(0.269 0 0);
-  --sidebar-ring: oklch(0.439 0 0);
-}
-
-@theme inline {
-  --color-background: var(--background);
-  --color-foreground: var(--foreground);
-  --color-card: var(--card);
-  --color-card-foreground: var(--card-foreground);
-  --color-popover: var(--popover);
-  --color-popover-foreground: var(--popover-foreground);
-  --color-primary: var(--primary);
-  --color-primary-foreground: var(--primary-foreground);
-  --color-secondary: var(--secondary);
-  --color-secondary-foreground: var(--secondary-foreground);
-  --color-muted: var(--muted);
-  --color-muted-foreground: var(--muted-foreground);
-  --color-accent: var(--accent);
-  --color-accent-foreground: var(--accent-foreground);
-  --color-destructive: var(--destructive);
-  --color-destructive-foreground: var(--destructive-foreground);
-  --color-border: var(--border);
-  --color-input: var(--input);
-  --color-ring: var(--ring);
-  --color-chart-1: var(--chart-1);
-  --color-chart-2: var(--chart-2);
-  --color-chart-3: var(--chart-3);
-  --color-chart-4: var(--chart-4);
-  --color-chart-5: var(--chart-5);
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-  --color-sidebar: var(--sidebar);
-  --color-sidebar-foreground: var(--sidebar-foreground);
-  --color-sidebar-primary: var(--sidebar-primary);
-  --color-sidebar-primary-foreground: var(--sidebar-primary-foreground);
-  --color-sidebar-accent: var(--sidebar-accent);
-  --color-sidebar-accent-foreground: var(--sidebar-accent-foreground);
-  --color-sidebar-border: var(--sidebar-border);
-  --color-sidebar-ring: var(--sidebar-ring);
-}
-
-@layer base {
-  * {
-    @apply border-border outline-ring/50;
-  }
-  body {
-    @apply bg-background text-foreground;
-  }
-}
-`;
-
-    writeFileSync(cssPath, reactCssContent);
-    console.log("✅ Updated static/master.css with shadcn/ui theme");
+    if (await writeProjectFile(projectRoot, cssPath, reactCssContent)) {
+        console.log("✅ Updated static/master.css with shadcn/ui theme");
+    }
 
     // Step 3: Create utils.js in components/lib/
-    const libDir = join(projectRoot, "components", "lib");
-    if (!existsSync(libDir)) {
-        mkdirSync(libDir, { recursive: true });
+    const utilsPath = join(projectRoot, "components", "lib", "utils.js");
+    if (await writeProjectFile(projectRoot, utilsPath, reactUtilsContent)) {
+        console.log("✅ Created components/lib/utils.js");
     }
 
-    const utilsPath = join(libDir, "utils.js");
-    const utilsContent = `import { clsx } from "clsx"
-import { twMerge } from "tailwind-merge"
-
-export function cn(...inputs) {
-  return twMerge(clsx(inputs))
-}
-`;
-
-    writeFileSync(utilsPath, utilsContent);
-    console.log("✅ Created components/lib/utils.js");
-
     // Step 4: Create components.json
     const componentsJsonPath = join(projectRoot, "components.json");
-    const componentsJsonContent = {
-        $schema: "https://ui.shadcn.com/schema.json",
-        style: "new-york",
-        rsc: false,
-        tsx: true,
-        tailwind: {
-            css: "static/master.css",
-            baseColor: "slate",
-            cssVariables: true,
-            config: "",
-            prefix: "",
-        },
-        aliases: {
-            components: "components",
-            utils: "components/lib/utils",
-            ui: "components/ui",
-            hooks: "components/ui/hooks",
-            lib: "components/lib",
-        },
-        iconLibrary: "lucide",
-    };
-
-    writeFileSync(
-        componentsJsonPath,
-        JSON.stringify(componentsJsonContent, null, 4)
-    );
-    console.log("✅ Created components.json");
+    if (
+        await writeProjectFile(projectRoot, componentsJsonPath, reactComponentsJsonContent)
+    ) {
+        console.log("✅ Created components.json");
+    }
+
+    if (changeMode() === "dry-run") return;
 
     // Final success message
     console.log(
@@ -333,18 +234,16 @@ async function setupShadcnSvelte(projectRoot: string, manager: string) {
     ).start();
 
     try {
-        await installPackages(
+        const installed = await installPackages(
             projectRoot,
-            [
-                "tailwind-variants",
-                "clsx",
-                "tailwind-merge",
-                "tw-animate-css",
-                "@lucide/svelte",
-            ],
+            SVELTE_PACKAGES,
             manager as any
         );
-        spinner.succeed("Installed shadcn/ui dependencies");
+        if (installed) {
+            spinner.succeed("Installed shadcn/ui dependencies");
+        } else {
+            spinner.stop();
+        }
     } catch (error) {
         spinner.fail("Failed to install dependencies");
         throw error;
@@ -352,173 +251,25 @@ async function setupShadcnSvelte(projectRoot: string, manager: string) {
 
     // Step 2: Update master.css
     const cssPath = join(projectRoot, "static", "master.css");
-    const svelteCssContent = `@import "tailwindcss";
-@import "tw-animate-css";
-@custom-variant dark (&:is(.dark *));
- 
-:root {
- --radius: 0.625rem;
- --background: oklch(1 0 0);
- --foreground: oklch(0.145 0 0);
- --card: oklch(1 0 0);
- --card-foreground: oklch(0.145 0 0);
- --popover: oklch(1 0 0);
- --popover-foreground: oklch(0.145 0 0);
- --primary: oklch(0.205 0 0);
- --primary-foreground: oklch(0.985 0 0);
- --secondary: oklch(0.97 0 0);
- --secondary-foreground: oklch(0.205 0 0);
- --muted: oklch(0.97 0 0);
- --muted-foreground: oklch(0.556 0 0);
- --accent: oklch(0.97 0 0);
- --accent-foreground: oklch(0.205 0 0);
- --destructive: oklch(0.577 0.245 27.325);
- --border: oklch(0.922 0 0);
- --input: oklch(0.922 0 0);
- --ring: oklch(0.708 0 0);
- --chart-1: oklch(0.646 0.222 41.116);
- --chart-2: oklch(0.6 0.118 184.704);
- --chart-3: oklch(0.398 0.07 227.392);
- --chart-4: oklch(0.828 0.189 84.429);
- --chart-5: oklch(0.769 0.188 70.08);
- --sidebar: oklch(0.985 0 0);
- --sidebar-foreground: oklch(0.145 0 0);
- --sidebar-primary: oklch(0.205 0 0);
- --sidebar-primary-foreground: oklch(0.985 0 0);
- --sidebar-accent: oklch(0.97 0 0);
- --sidebar-accent-foreground: oklch(0.205 0 0);
- --sidebar-border: oklch(0.922 0 0);
- --sidebar-ring: oklch(0.708 0 0);
-}
- 
-.dark {
- --background: oklch(0.145 0 0);
- --foreground: oklch(0.985 0 0);
- --card: oklch(0.205 0 0);
- --card-foreground: oklch(0.985 0 0);
- --popover: oklch(0.269 0 0);
- --popover-foreground: oklch(0.985 0 0);
- --primary: oklch(0.922 0 0);
- --primary-foreground: oklch(0.205 0 0);
- --secondary: oklch(0.269 0 0);
- --secondary-foreground: oklch(0.985 0 0);
- --muted: oklch(0.269 0 0);
- --muted-foreground: oklch(0.708 0 0);
- --accent: oklch(0.371 0 0);
- --accent-foreground: oklch(0.985 0 0);
- --destructive: oklch(0.704 0.191 22.216);
- --border: oklch(1 0 0 / 10%);
- --input: oklch(1 0 0 / 15%);
- --ring: oklch(0.556 0 0);
- --chart-1: oklch(0.488 0.243 264.376);
- --chart-2: oklch(0.696 0.17 162.48);
- --chart-3: oklch(0.769 0.188 70.08);
- --chart-4: oklch(0.627 0.265 303.9);
- --chart-5: oklch(0.645 0.246 16.439);
- --sidebar: oklch(0.205 0 0);
- --sidebar-foreground: oklch(0.985 0 0);
- --sidebar-primary: oklch(0.488 0.243 264.376);
- --sidebar-primary-foreground: oklch(0.985 0 0);
- --sidebar-accent: oklch(0.269 0 0);
- --sidebar-accent-foreground: oklch(0.985 0 0);
- --sidebar-border: oklch(1 0 0 / 10%);
- --sidebar-ring: oklch(0.439 0 0);
-}
- 
-@theme inline {
- --radius-sm: calc(var(--radius) - 4px);
- --radius-md: calc(var(--radius) - 2px);
- --radius-lg: var(--radius);
- --radius-xl: calc(var(--radius) + 4px);
- --color-background: var(--background);
- --color-foreground: var(--foreground);
- --color-card: var(--card);
- --color-card-foreground: var(--card-foreground);
- --color-popover: var(--popover);
- --color-popover-foreground: var(--popover-foreground);
- --color-primary: var(--primary);
- --color-primary-foreground: var(--primary-foreground);
- --color-secondary: var(--secondary);
- --color-secondary-foreground: var(--secondary-foreground);
- --color-muted: var(--muted);
- --color-muted-foreground: var(--muted-foreground);
- --color-accent: var(--accent);
- --color-accent-foreground: var(--accent-foreground);
- --color-destructive: var(--destructive);
- --color-border: var(--border);
- --color-input: var(--input);
- --color-ring: var(--ring);
- --color-chart-1: var(--chart-1);
- --color-chart-2: var(--chart-2);
- --color-chart-3: var(--chart-3);
- --color-chart-4: var(--chart-4);
- --color-chart-5: var(--chart-5);
- --color-sidebar: var(--sidebar);
- --color-sidebar-foreground: var(--sidebar-foreground);
- --color-sidebar-primary: var(--sidebar-primary);
- --color-sidebar-primary-foreground: var(--sidebar-primary-foreground);
- --color-sidebar-accent: var(--sidebar-accent);
- --color-sidebar-accent-foreground: var(--sidebar-accent-foreground);
- --color-sidebar-border: var(--sidebar-border);
- --color-sidebar-ring: var(--sidebar-ring);
-}
- 
-@layer base {
- * {
-  @apply border-border outline-ring/50;
- }
- 
- body {
-  @apply bg-background text-foreground;
- }
-}
-`;
-
-    writeFileSync(cssPath, svelteCssContent);
-    console.log("✅ Updated static/master.css with shadcn/ui theme");
+    if (await writeProjectFile(projectRoot, cssPath, svelteCssContent)) {
+        console.log("✅ Updated static/master.css with shadcn/ui theme");
+    }
 
     // Step 3: Create utils.js in components/lib/
-    const libDir = join(projectRoot, "components", "lib");
-    if (!existsSync(libDir)) {
-        mkdirSync(libDir, { recursive: true });
+    const utilsPath = join(projectRoot, "components", "lib", "utils.js");
+    if (await writeProjectFile(projectRoot, utilsPath, svelteUtilsContent)) {
+        console.log("✅ Created components/lib/utils.js");
     }
 
-    const utilsPath = join(libDir, "utils.js");
-    const utilsContent = `import { clsx } from "clsx";
-import { twMerge } from "tailwind-merge";
- 
-export function cn(...inputs) {
- return twMerge(clsx(inputs));
-}
-`;
-
-    writeFileSync(utilsPath, utilsContent);
-    console.log("✅ Created components/lib/utils.js");
-
     // Step 4: Create components.json
     const componentsJsonPath = join(projectRoot, "components.json");
-    const componentsJsonContent = {
-        $schema: "https://shadcn-svelte.com/schema.json",
-        tailwind: {
-            css: "static/master.css",
-            baseColor: "slate",
-        },
-        aliases: {
-            components: "components",
-            utils: "components/lib/utils",
-            ui: "components/ui",
-            hooks: "components/ui/hooks",
-            lib: "components/lib",
-        },
-        typescript: true,
-        registry: "https://shadcn-svelte.com/registry",
-    };
-
-    writeFileSync(
-        componentsJsonPath,
-        JSON.stringify(componentsJsonContent, null, 4)
-    );
-    console.log("✅ Created components.json");
+    if (
+        await writeProjectFile(projectRoot, componentsJsonPath, svelteComponentsJsonContent)
+    ) {
+        console.log("✅ Created components.json");
+    }
+
+    if (changeMode() === "dry-run") return;
 
     // Final success message
     console.log(
@@ -540,3 +291,119 @@ export function cn(...inputs) {
         )
     );
 }
+
+// Whether px add shadcn has run here
+export function isShadcnSetup(projectRoot: string): boolean {
+    return projectFileExists(join(projectRoot, "components.json"));
+}
+
+// Blocks of the theme px add shadcn writes to master.css
+const THEME_BLOCKS = [
+    /^[ \t]*:root\s*\{/m,
+    /^[ \t]*\.dark\s*\{/m,
+    /^[ \t]*@theme\s+inline\s*\{/m,
+    /^[ \t]*@layer\s+base\s*\{/m,
+];
+
+// Strip the shadcn/ui theme from master.css: the tw-animate-css import, the
+// dark variant and the :root, .dark, @theme inline and @layer base blocks
+function stripTheme(css: string): string {
+    let stripped = css
+        .replace(/^[ \t]*@import\s+["']tw-animate-css["'];?[ \t]*\r?\n?/m, "")
+        .replace(/^[ \t]*@custom-variant\s+dark\b[^;]*;[ \t]*\r?\n?/m, "");
+
+    for (const block of THEME_BLOCKS) {
+        const start = stripped.search(block);
+        if (start === -1) continue;
+
+        // Find the closing brace of the block
+        let depth = 0;
+        let end = stripped.indexOf("{", start);
+        for (; end < stripped.length; end++) {
+            if (stripped[end] === "{") depth++;
+            if (stripped[end] === "}" && --depth === 0) break;
+        }
+        stripped = stripped.slice(0, start) + stripped.slice(end + 1);
+    }
+
+    // Collapse the blank lines the blocks leave behind
+    return stripped.replace(/\n[ \t]*(\n[ \t]*){2,}/g, "\n\n").trim() + "\n";
+}
+
+// Undo px add shadcn, leaving Tailwind set up. Generated files edited since
+// are kept unless force is set; returns the ones that were.
+export async function removeShadcn(force: boolean = false): Promise<string[]> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const kept: string[] = [];
+
+    console.log(
+        boxen("🧹 Removing shadcn/ui", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "magenta",
+        })
+    );
+
+    // Step 1: Put master.css back to just Tailwind
+    const cssPath = join(projectRoot, "static", "master.css");
+    const css = readProjectFile(cssPath);
+    if (css !== null && /@import\s+["']tw-animate-css["']/.test(css)) {
+        const generated = css === reactCssContent || css === svelteCssContent;
+        if (!generated && !force) {
+            kept.push(join("static", "master.css"));
+        } else if (
+            await writeProjectFile(
+                projectRoot,
+                cssPath,
+                generated ? masterCssContent : stripTheme(css)
+            )
+        ) {
+            console.log("✅ Removed the shadcn/ui theme from static/master.css");
+        }
+    }
+
+    // Step 2: Delete components/lib/utils.js and components.json
+    const generatedFiles: [string, string[]][] = [
+        [
+            join("components", "lib", "utils.js"),
+            [reactUtilsContent, svelteUtilsContent],
+        ],
+        [
+            "components.json",
+            [reactComponentsJsonContent, svelteComponentsJsonContent],
+        ],
+    ];
+    for (const [file, versions] of generatedFiles) {
+        const result = removeGeneratedFile(projectRoot, file, versions, force);
+        if (result === "removed") {
+            console.log(`✅ Removed ${file}`);
+        } else if (result === "edited") {
+            kept.push(file);
+        }
+    }
+
+    // Step 3: Uninstall the packages of either framework's setup that px add
+    // installed, unless still imported
+    const packages = removablePackages(projectRoot, "shadcn", [
+        ...REACT_PACKAGES,
+        ...SVELTE_PACKAGES,
+    ]);
+    if (packages.length > 0) {
+        await uninstallPackages(projectRoot, packages, manager);
+    }
+
+    return kept;
+}
+
+export const shadcnModule: PxModule = {
+    name: "shadcn",
+    description: "shadcn/ui theme and helpers for React or Svelte",
+    dependencies: ["tailwind"],
+    files: SHADCN_FILES,
+    detect: isShadcnSetup,
+    install: ({ options }) =>
+        addShadcn(typeof options.framework === "string" ? options.framework : undefined),
+    remove: ({ force }) => removeShadcn(force),
+};
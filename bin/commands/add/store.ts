@@ -0,0 +1,353 @@
+import { select } from "@inquirer/prompts";
+import boxen from "boxen";
+import { readdirSync } from "fs";
+import ora from "ora";
+import { join } from "path";
+import {
+    changeMode,
+    projectFileExists,
+    readProjectFile,
+    removeGeneratedFile,
+    updateGitignore,
+    writeProjectFile,
+} from "../../utils/changes.ts";
+import type { PxModule } from "../../utils/modules.ts";
+import {
+    installPackages,
+    removablePackages,
+    uninstallPackages,
+} from "../../utils/packages.ts";
+import { detectManager, findProjectRoot } from "../../utils/project.ts";
+import { ask } from "../../utils/prompt.ts";
+import { STORE_DRIVERS } from "../../utils/rules.ts";
+import {
+    mongodbConfigContent,
+    mysqlConfigContent,
+    postgresqlConfigContent,
+    sqliteConfigContent,
+    surrealdbConfigContent,
+} from "./templates/store/database-config.ts";
+import { sampleStoreContent } from "./templates/store/sample-store.ts";
+
+// Where Primate reads the database driver from, relative to the project root
+const DATABASE_CONFIG_FILE = join("config", "database", "index.ts");
+
+// The sample store px add store scaffolds
+const SAMPLE_STORE_FILE = join("stores", "Post.ts");
+
+// Files px add store may create or change, besides package.json and the lockfile
+export const STORE_FILES = [DATABASE_CONFIG_FILE, SAMPLE_STORE_FILE, ".env", ".gitignore"];
+
+// Primate's schema types, which the sample store is written with
+const SCHEMA_PACKAGE = "pema";
+
+// A database px add store can set up
+interface Driver {
+    // What --driver takes
+    name: string;
+    label: string;
+    // config/database/index.ts, or null for Primate's default in-memory store
+    config: string | null;
+    // Variables the config reads, with the values written to .env
+    env: [string, string][];
+    // Also added to .gitignore
+    gitignore: string[];
+}
+
+const DRIVERS: Driver[] = [
+    {
+        name: "sqlite",
+        label: "SQLite",
+        config: sqliteConfigContent,
+        env: [["DB_PATH", "app.sqlite"]],
+        gitignore: ["app.sqlite"],
+    },
+    {
+        name: "postgresql",
+        label: "PostgreSQL",
+        config: postgresqlConfigContent,
+        env: [
+            ["DB_HOST", "localhost"],
+            ["DB_PORT", "5432"],
+            ["DB_NAME", "app"],
+            ["DB_USER", "postgres"],
+            ["DB_PASSWORD", ""],
+        ],
+        gitignore: [],
+    },
+    {
+        name: "mysql",
+        label: "MySQL",
+        config: mysqlConfigContent,
+        env: [
+            ["DB_HOST", "localhost"],
+            ["DB_PORT", "3306"],
+            ["DB_NAME", "app"],
+            ["DB_USER", "root"],
+            ["DB_PASSWORD", ""],
+        ],
+        gitignore: [],
+    },
+    {
+        name: "mongodb",
+        label: "MongoDB",
+        config: mongodbConfigContent,
+        env: [
+            ["DB_HOST", "localhost"],
+            ["DB_PORT", "27017"],
+            ["DB_NAME", "app"],
+        ],
+        gitignore: [],
+    },
+    {
+        name: "surrealdb",
+        label: "SurrealDB",
+        config: surrealdbConfigContent,
+        env: [
+            ["DB_HOST", "http://localhost"],
+            ["DB_PORT", "8000"],
+            ["DB_NAMESPACE", "app"],
+            ["DB_NAME", "app"],
+            ["DB_USER", "root"],
+            ["DB_PASSWORD", ""],
+        ],
+        gitignore: [],
+    },
+    {
+        name: "in-memory",
+        label: "In-memory",
+        config: null,
+        env: [],
+        gitignore: [],
+    },
+];
+
+// What px add store installs for a driver
+function driverPackages({ name }: Driver): string[] {
+    return STORE_DRIVERS.includes(name)
+        ? [`@primate/${name}`, SCHEMA_PACKAGE]
+        : [SCHEMA_PACKAGE];
+}
+
+// Ask user which database to use, unless --yes or --non-interactive
+async function askDriver(): Promise<Driver> {
+    return ask({
+        about: "which database driver to use",
+        flags: DRIVERS.map(({ name }) => `--driver ${name}`),
+        fallback: { value: DRIVERS[0]!, label: "SQLite" },
+        prompt: () =>
+            select({
+                message: "Which database do you want to use?",
+                choices: DRIVERS.map((driver) => ({
+                    name: driver.label,
+                    value: driver,
+                    description:
+                        driver.name === "sqlite"
+                            ? "A local file, no server needed"
+                            : driver.config === null
+                              ? "Primate's default: data is lost when the app stops"
+                              : `Connects to a ${driver.label} server`,
+                })),
+            }),
+    });
+}
+
+// Add the variables .env doesn't set yet, under a comment.
+// Returns whether .env sets them all now.
+async function updateEnv(
+    projectRoot: string,
+    variables: [string, string][]
+): Promise<boolean> {
+    const envPath = join(projectRoot, ".env");
+    const content = readProjectFile(envPath) ?? "";
+
+    const set = new Set(
+        content
+            .split("\n")
+            .map((line) => line.match(/^\s*(?:export\s+)?([A-Za-z_]\w*)\s*=/)?.[1])
+    );
+    const missing = variables.filter(([name]) => !set.has(name));
+
+    if (missing.length === 0) {
+        return true;
+    }
+
+    const newContent = `${content.trim() === "" ? "" : content.trimEnd() + "\n\n"}# Database (px add store)\n${missing
+        .map(([name, value]) => `${name}=${value}`)
+        .join("\n")}\n`;
+    return writeProjectFile(projectRoot, envPath, newContent);
+}
+
+// Check if a store is set up: a database config, or a store under stores/
+export function isStoreSetup(projectRoot: string): boolean {
+    if (projectFileExists(join(projectRoot, DATABASE_CONFIG_FILE))) {
+        return true;
+    }
+
+    try {
+        return readdirSync(join(projectRoot, "stores")).length > 0;
+    } catch {
+        return false;
+    }
+}
+
+// Set up a database driver; driver is --driver, asked for when not given
+export async function addStore(requested?: string) {
+    const found = DRIVERS.find(({ name }) => name === requested);
+    if (requested !== undefined && !found) {
+        console.error(
+            `❌ Unknown driver: ${requested} (use ${DRIVERS.map(({ name }) => name).join(", ")})`
+        );
+        process.exit(1);
+    }
+
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+
+    console.log(
+        boxen("🗄️  Setting up a store for Primate", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "yellow",
+        })
+    );
+
+    console.log(`📂 Project root: ${projectRoot}`);
+    console.log(`📋 Package manager: ${manager}\n`);
+
+    // Step 1: Pick the driver
+    const driver = found ?? (await askDriver());
+    console.log(`🎯 Driver: ${driver.label}\n`);
+
+    // Step 2: Install the driver and the schema types
+    const spinner = ora(`Installing ${driver.label} dependencies...`).start();
+
+    try {
+        const installed = await installPackages(
+            projectRoot,
+            driverPackages(driver),
+            manager
+        );
+        if (installed) {
+            spinner.succeed(`Installed ${driver.label} dependencies`);
+        } else {
+            spinner.stop();
+        }
+    } catch (error) {
+        spinner.fail("Failed to install dependencies");
+        throw error;
+    }
+
+    // Step 3: Create config/database/index.ts, reading from .env
+    const configPath = join(projectRoot, DATABASE_CONFIG_FILE);
+    if (driver.config === null) {
+        console.log("✅ No database config needed: Primate keeps stores in memory by default");
+    } else if (projectFileExists(configPath)) {
+        console.log(`⚠️  ${DATABASE_CONFIG_FILE} already exists, skipping...`);
+    } else if (await writeProjectFile(projectRoot, configPath, driver.config)) {
+        console.log(`✅ Created ${DATABASE_CONFIG_FILE}`);
+    }
+
+    // Step 4: Add the variables it reads to .env, and keep .env out of git
+    if (driver.env.length > 0) {
+        if (await updateEnv(projectRoot, driver.env)) {
+            console.log(
+                `✅ .env sets ${driver.env.map(([name]) => name).join(", ")}`
+            );
+        }
+        if (await updateGitignore(projectRoot, [".env", ...driver.gitignore])) {
+            console.log(`✅ .gitignore covers ${[".env", ...driver.gitignore].join(", ")}`);
+        }
+    }
+
+    // Step 5: Scaffold a sample store
+    const storePath = join(projectRoot, SAMPLE_STORE_FILE);
+    if (projectFileExists(storePath)) {
+        console.log(`⚠️  ${SAMPLE_STORE_FILE} already exists, skipping...`);
+    } else if (await writeProjectFile(projectRoot, storePath, sampleStoreContent)) {
+        console.log(`✅ Created ${SAMPLE_STORE_FILE}`);
+    }
+
+    if (changeMode() === "dry-run") return;
+
+    const nextStep =
+        driver.name === "sqlite" || driver.config === null
+            ? "🚀 Run 'px run': no database server needed"
+            : `🔌 Set the connection in .env, then run 'px run'`;
+
+    // Final success message
+    console.log(
+        boxen(
+            `✅ ${driver.label} store setup complete!
+
+📝 Sample store: ${SAMPLE_STORE_FILE}
+${nextStep}
+📚 Primate docs: https://primate.run`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "green",
+            }
+        )
+    );
+}
+
+// Undo px add store, whichever driver it set up. The database config and the
+// sample store are kept if edited since, unless force is set; returns the ones
+// that were. .env and .gitignore are left alone: .env may hold real secrets by now.
+export async function removeStore(force: boolean = false): Promise<string[]> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const kept: string[] = [];
+
+    console.log(
+        boxen("🧹 Removing the store", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "yellow",
+        })
+    );
+
+    // Step 1: Delete the database config and the sample store
+    const generatedFiles: [string, string[]][] = [
+        [
+            DATABASE_CONFIG_FILE,
+            DRIVERS.flatMap(({ config }) => (config === null ? [] : [config])),
+        ],
+        [SAMPLE_STORE_FILE, [sampleStoreContent]],
+    ];
+    for (const [file, versions] of generatedFiles) {
+        const result = removeGeneratedFile(projectRoot, file, versions, force);
+        if (result === "removed") {
+            console.log(`✅ Removed ${file}`);
+        } else if (result === "edited") {
+            kept.push(file);
+        }
+    }
+
+    // Step 2: Uninstall the drivers px add installed, unless still imported.
+    // The schema types stay, they may be used elsewhere.
+    const packages = removablePackages(
+        projectRoot,
+        "store",
+        STORE_DRIVERS.map((driver) => `@primate/${driver}`)
+    );
+    if (packages.length > 0) {
+        await uninstallPackages(projectRoot, packages, manager);
+    }
+
+    return kept;
+}
+
+export const storeModule: PxModule = {
+    name: "store",
+    description: "A database driver and a sample store (sqlite, postgresql, ...)",
+    files: STORE_FILES,
+    detect: isStoreSetup,
+    install: ({ options }) =>
+        addStore(typeof options.driver === "string" ? options.driver : undefined),
+    remove: ({ force }) => removeStore(force),
+};
@@ -1,9 +1,90 @@
 import boxen from "boxen";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import ora from "ora";
 import { join } from "path";
-import { installPackages } from "../../utils/packages.ts";
+import {
+    addModule,
+    APP_CONFIG_FILE,
+    configuredModules,
+    hasModule,
+    readAppConfig,
+    removeModule,
+    writeAppConfig,
+} from "../../utils/app-config.ts";
+import {
+    changeMode,
+    projectFileExists,
+    readProjectFile,
+    removeGeneratedFile,
+    writeProjectFile,
+} from "../../utils/changes.ts";
+import type { PxModule } from "../../utils/modules.ts";
+import {
+    installPackages,
+    removablePackages,
+    uninstallPackages,
+} from "../../utils/packages.ts";
 import { detectManager, findProjectRoot } from "../../utils/project.ts";
+import { FRONTEND_EXTENSIONS } from "../../utils/rules.ts";
+import { masterCssContent } from "./templates/tailwind/master-css.ts";
+import { tailwindConfigContent } from "./templates/tailwind/tailwind-config.ts";
+
+// Files px add tailwind may create or change, besides package.json and the lockfile
+export const TAILWIND_FILES = [
+    "tailwind.config.js",
+    join("static", "master.css"),
+    APP_CONFIG_FILE,
+];
+
+// What px add tailwind installs
+export const TAILWIND_PACKAGES = ["@primate/tailwind", "tailwindcss"];
+
+// The globs in tailwind.config.js's content that list view extensions
+const CONTENT_GLOB = /(["']\.\/(?:views|components|lib)\/\*\*\/\*\.)\{([^}]*)\}/g;
+
+// The views glob, which lists the same extensions as the others
+const VIEWS_GLOB = /\.\/views\/\*\*\/\*\.\{([^}]*)\}/;
+
+// The line px add tailwind puts at the top of master.css
+const TAILWIND_IMPORT = /^[ \t]*@import\s+["']tailwindcss["'];?[ \t]*(\r?\n|$)/m;
+
+// Add file extensions ("hbs") to the view, component and lib globs of a
+// tailwind.config.js, after those already there
+export function widenTailwindContent(config: string, extensions: string[]): string {
+    return config.replace(CONTENT_GLOB, (glob, prefix: string, list: string) => {
+        const current = list.split(",").map((extension) => extension.trim());
+        const added = extensions.filter((extension) => !current.includes(extension));
+        return added.length > 0 ? `${prefix}{${[...current, ...added].join(",")}}` : glob;
+    });
+}
+
+// Glob extensions of the frontends in config/app.ts ("svelte", "hbs")
+function frontendExtensions(projectRoot: string): string[] {
+    const extensions = configuredModules(readAppConfig(projectRoot))
+        .map(({ source }) => FRONTEND_EXTENSIONS[source.slice("@primate/".length)])
+        .filter((extension) => extension !== undefined)
+        .map((extension) => extension.split(".").pop()!);
+    return Array.from(new Set(extensions));
+}
+
+// The extensions a tailwind.config.js's views glob lists
+function viewExtensions(config: string): string[] {
+    return (
+        config
+            .match(VIEWS_GLOB)?.[1]
+            ?.split(",")
+            .map((extension) => extension.trim()) ?? []
+    );
+}
+
+// tailwind.config.js as px generates it, widened with the extensions the
+// existing one has beyond the defaults (added by px add <frontend>)
+function generatedTailwindConfig(existing: string): string {
+    const defaults = viewExtensions(tailwindConfigContent);
+    return widenTailwindContent(
+        tailwindConfigContent,
+        viewExtensions(existing).filter((extension) => !defaults.includes(extension))
+    );
+}
 
 export async function addTailwind() {
     const projectRoot = findProjectRoot(process.cwd());
@@ -25,12 +106,16 @@ export async function addTailwind() {
     const spinner = ora("Installing Tailwind CSS and dependencies...").start();
 
     try {
-        await installPackages(
+        const installed = await installPackages(
             projectRoot,
-            ["@primate/tailwind", "tailwindcss"],
+            TAILWIND_PACKAGES,
             manager
         );
-        spinner.succeed("Installed Tailwind CSS dependencies");
+        if (installed) {
+            spinner.succeed("Installed Tailwind CSS dependencies");
+        } else {
+            spinner.stop();
+        }
     } catch (error) {
         spinner.fail("Failed to install dependencies");
         throw error;
@@ -38,133 +123,59 @@ export async function addTailwind() {
 
     // Step 2: Create tailwind.config.js
     const tailwindConfigPath = join(projectRoot, "tailwind.config.js");
-    const tailwindConfig = `/** @type {import('tailwindcss').Config} */
-export default {
-  content: [
-    "./views/**/*.{js,ts,jsx,tsx,svelte,vue}",
-    "./components/**/*.{js,ts,jsx,tsx,svelte,vue}",
-    "./routes/**/*.{js,ts}",
-    "./lib/**/*.{js,ts,jsx,tsx,svelte,vue}",
-  ],
-  theme: {
-    extend: {},
-  },
-  plugins: [],
-};
-`;
 
-    if (existsSync(tailwindConfigPath)) {
+    if (projectFileExists(tailwindConfigPath)) {
         console.log("⚠️  tailwind.config.js already exists, skipping...");
-    } else {
-        writeFileSync(tailwindConfigPath, tailwindConfig);
+    } else if (
+        await writeProjectFile(
+            projectRoot,
+            tailwindConfigPath,
+            // Covering the views of frontends px add set up before Tailwind
+            widenTailwindContent(tailwindConfigContent, frontendExtensions(projectRoot))
+        )
+    ) {
         console.log("✅ Created tailwind.config.js");
     }
 
-    // Step 3: Create static directory and CSS file
-    const staticDir = join(projectRoot, "static");
-    if (!existsSync(staticDir)) {
-        mkdirSync(staticDir, { recursive: true });
-    }
-
-    const cssPath = join(staticDir, "master.css");
-    const cssContent = `@import "tailwindcss";`;
+    // Step 3: Create the CSS file (and the static directory)
+    const cssPath = join(projectRoot, "static", "master.css");
+    const existing = readProjectFile(cssPath);
 
-    if (existsSync(cssPath)) {
-        const existing = readFileSync(cssPath, "utf-8");
+    if (existing !== null) {
         if (!existing.includes("@import \"tailwindcss\"")) {
             // Append tailwind directives
-            writeFileSync(cssPath, cssContent + "\n" + existing);
-            console.log("✅ Added Tailwind directives to existing master.css");
+            if (await writeProjectFile(projectRoot, cssPath, masterCssContent + "\n" + existing)) {
+                console.log("✅ Added Tailwind directives to existing master.css");
+            }
         } else {
             console.log(
                 "⚠️  master.css already contains Tailwind directives, skipping..."
             );
         }
-    } else {
-        writeFileSync(cssPath, cssContent);
+    } else if (await writeProjectFile(projectRoot, cssPath, masterCssContent)) {
         console.log("✅ Created static/master.css with Tailwind directives");
     }
 
-    // Step 4: Update or create config/app.ts
-    const configDir = join(projectRoot, "config");
-    if (!existsSync(configDir)) {
-        mkdirSync(configDir, { recursive: true });
-    }
-
-    const appConfigPath = join(configDir, "app.ts");
-    let appConfigUpdated = false;
-
-    if (existsSync(appConfigPath)) {
-        let existingConfig = readFileSync(appConfigPath, "utf-8");
-
-        // Check if tailwind is already imported
-        if (!existingConfig.includes("@primate/tailwind")) {
-            // Add tailwind import after other imports
-            const importRegex = /(import\s+\w+\s+from\s+["']@primate\/\w+["'];?\s*\n)/g;
-            const matches = existingConfig.match(importRegex);
-            
-            if (matches && matches.length > 0) {
-                // Add after the last @primate import
-                const lastImport = matches[matches.length - 1];
-                const lastImportIndex = existingConfig.lastIndexOf(lastImport);
-                const insertPosition = lastImportIndex + lastImport.length;
-                
-                existingConfig = 
-                    existingConfig.slice(0, insertPosition) +
-                    'import tailwind from "@primate/tailwind";\n' +
-                    existingConfig.slice(insertPosition);
-            } else {
-                // Add at the beginning if no @primate imports found
-                existingConfig = 'import tailwind from "@primate/tailwind";\n' + existingConfig;
-            }
+    // Step 4: Add the module to config/app.ts, creating it if needed
+    const appConfig = readAppConfig(projectRoot);
+    const created = !appConfig.exists;
+    const result = addModule(appConfig, "@primate/tailwind");
+    // Declined in --interactive mode counts as not updated
+    const written = result === "changed" && (await writeAppConfig(appConfig));
+    const appConfigUpdated = result === "unchanged" || written;
 
-            // Add tailwind() to modules array
-            if (existingConfig.includes("modules:")) {
-                // Find the modules array and add tailwind()
-                existingConfig = existingConfig.replace(
-                    /modules:\s*\[([^\]]*)\]/,
-                    (match, modulesList) => {
-                        // Check if tailwind() is already in the list
-                        if (modulesList.includes("tailwind()")) {
-                            return match;
-                        }
-                        // Add tailwind() to the modules list
-                        const trimmedModules = modulesList.trim();
-                        if (trimmedModules === "") {
-                            return `modules: [tailwind()]`;
-                        }
-                        // Check if the list ends with a comma or not
-                        const needsComma = trimmedModules.endsWith(",") ? "" : ",";
-                        return `modules: [${modulesList}${needsComma} tailwind()]`;
-                    }
-                );
-            } else {
-                // Add modules array if it doesn't exist
-                existingConfig = existingConfig.replace(
-                    /export default config\(\{/,
-                    `export default config({\n    modules: [tailwind()],`
-                );
-            }
+    if (written) {
+        console.log(
+            created
+                ? "✅ Created config/app.ts with Tailwind configuration"
+                : "✅ Updated config/app.ts to include @primate/tailwind module"
+        );
+    } else if (result === "unchanged") {
+        console.log("⚠️  config/app.ts already includes @primate/tailwind");
+    }
 
-            writeFileSync(appConfigPath, existingConfig);
-            console.log("✅ Updated config/app.ts to include @primate/tailwind module");
-            appConfigUpdated = true;
-        } else {
-            console.log("⚠️  config/app.ts already includes @primate/tailwind");
-            appConfigUpdated = true;
-        }
-    } else {
-        // Create new config file with tailwind
-        const newConfig = `import tailwind from "@primate/tailwind";
-import config from "primate/config";
-
-export default config({
-    modules: [tailwind()],
-});
-`;
-        writeFileSync(appConfigPath, newConfig);
-        console.log("✅ Created config/app.ts with Tailwind configuration");
-        appConfigUpdated = true;
+    if (changeMode() === "dry-run") {
+        return { projectRoot, manager };
     }
 
     // Final success message
@@ -193,27 +204,95 @@ ${manualStepMsg}🚀 Run 'px run' to start your Primate project
 // Check if tailwind is already setup
 export function isTailwindSetup(projectRoot: string): boolean {
     // Check 1: config/app.ts includes @primate/tailwind
-    const appConfigPath = join(projectRoot, "config", "app.ts");
-    if (!existsSync(appConfigPath)) {
-        return false;
-    }
-    const config = readFileSync(appConfigPath, "utf-8");
-    if (!config.includes("@primate/tailwind")) {
+    if (!hasModule(readAppConfig(projectRoot), "@primate/tailwind")) {
         return false;
     }
 
     // Check 2: tailwind.config.js exists
     const tailwindConfigPath = join(projectRoot, "tailwind.config.js");
-    if (!existsSync(tailwindConfigPath)) {
+    if (!projectFileExists(tailwindConfigPath)) {
         return false;
     }
 
     // Check 3: static/master.css exists
     const masterCssPath = join(projectRoot, "static", "master.css");
-    if (!existsSync(masterCssPath)) {
+    if (!projectFileExists(masterCssPath)) {
         return false;
     }
 
     return true;
 }
 
+
+// Undo px add tailwind. Generated files edited since are kept unless force
+// is set; returns the ones that were.
+export async function removeTailwind(force: boolean = false): Promise<string[]> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const kept: string[] = [];
+
+    console.log(
+        boxen("🧹 Removing Tailwind CSS", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "cyan",
+        })
+    );
+
+    // Step 1: Remove the module from config/app.ts
+    const appConfig = readAppConfig(projectRoot);
+    const result = removeModule(appConfig, "@primate/tailwind");
+    if (result === "changed" && (await writeAppConfig(appConfig))) {
+        console.log("✅ Removed @primate/tailwind from config/app.ts");
+    } else if (result === "unsupported") {
+        kept.push(APP_CONFIG_FILE);
+    }
+
+    // Step 2: Drop the Tailwind import from master.css, and the file if
+    // that was all it had
+    const cssPath = join(projectRoot, "static", "master.css");
+    const css = readProjectFile(cssPath);
+    if (css !== null && TAILWIND_IMPORT.test(css)) {
+        const stripped = css.replace(TAILWIND_IMPORT, "").replace(/^\s*\n/, "");
+        if (stripped.trim() === "") {
+            removeGeneratedFile(projectRoot, cssPath, [css], force);
+            console.log("✅ Removed static/master.css");
+        } else if (await writeProjectFile(projectRoot, cssPath, stripped)) {
+            console.log("✅ Removed Tailwind directives from static/master.css");
+        }
+    }
+
+    // Step 3: Delete tailwind.config.js
+    const tailwindConfig = readProjectFile(join(projectRoot, "tailwind.config.js"));
+    const configResult = removeGeneratedFile(
+        projectRoot,
+        "tailwind.config.js",
+        tailwindConfig === null ? [] : [generatedTailwindConfig(tailwindConfig)],
+        force
+    );
+    if (configResult === "removed") {
+        console.log("✅ Removed tailwind.config.js");
+    } else if (configResult === "edited") {
+        kept.push("tailwind.config.js");
+    }
+
+    // Step 4: Uninstall the packages px add installed, unless still imported
+    const packages = removablePackages(projectRoot, "tailwind", TAILWIND_PACKAGES);
+    if (packages.length > 0) {
+        await uninstallPackages(projectRoot, packages, manager);
+    }
+
+    return kept;
+}
+
+export const tailwindModule: PxModule = {
+    name: "tailwind",
+    description: "Tailwind CSS, through @primate/tailwind",
+    files: TAILWIND_FILES,
+    detect: isTailwindSetup,
+    async install() {
+        await addTailwind();
+    },
+    remove: ({ force }) => removeTailwind(force),
+};
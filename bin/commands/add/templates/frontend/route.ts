@@ -0,0 +1,12 @@
+export const routeContent = (
+    view: string,
+    frontend: string
+) => `import view from "primate/response/view";
+import route from "primate/route";
+
+export default route({
+  get() {
+    return view("${view}", { frontend: "${frontend}" });
+  },
+});
+`;
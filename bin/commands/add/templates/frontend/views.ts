@@ -0,0 +1,78 @@
+// The sample view px add <frontend> creates for each frontend. Each gets a
+// `frontend` prop from the sample route.
+
+export const reactViewContent = `export default function ReactExample({ frontend }) {
+  return (
+    <main>
+      <h1>Hello from {frontend}</h1>
+      <p>Edit views/ReactExample.jsx and routes/react-example.ts to get started.</p>
+    </main>
+  );
+}
+`;
+
+export const svelteViewContent = `<script>
+  let { frontend } = $props();
+</script>
+
+<main>
+  <h1>Hello from {frontend}</h1>
+  <p>Edit views/SvelteExample.svelte and routes/svelte-example.ts to get started.</p>
+</main>
+`;
+
+export const vueViewContent = `<script setup>
+defineProps(["frontend"]);
+</script>
+
+<template>
+  <main>
+    <h1>Hello from {{ frontend }}</h1>
+    <p>Edit views/VueExample.vue and routes/vue-example.ts to get started.</p>
+  </main>
+</template>
+`;
+
+export const solidViewContent = `export default function SolidExample(props) {
+  return (
+    <main>
+      <h1>Hello from {props.frontend}</h1>
+      <p>Edit views/SolidExample.jsx and routes/solid-example.ts to get started.</p>
+    </main>
+  );
+}
+`;
+
+export const angularViewContent = `import { Component, Input } from "@angular/core";
+
+@Component({
+  selector: "angular-example",
+  standalone: true,
+  template: \`
+    <main>
+      <h1>Hello from {{ frontend }}</h1>
+      <p>Edit views/AngularExample.component.ts and routes/angular-example.ts to get started.</p>
+    </main>
+  \`,
+})
+export default class AngularExample {
+  @Input() frontend = "";
+}
+`;
+
+export const htmxViewContent = `<main>
+  <h1>Hello from htmx</h1>
+  <p>Edit views/HtmxExample.htmx and routes/htmx-example.ts to get started.</p>
+</main>
+`;
+
+export const markdownViewContent = `# Hello from Markdown
+
+Edit views/MarkdownExample.md and routes/markdown-example.ts to get started.
+`;
+
+export const handlebarsViewContent = `<main>
+  <h1>Hello from {{frontend}}</h1>
+  <p>Edit views/HandlebarsExample.hbs and routes/handlebars-example.ts to get started.</p>
+</main>
+`;
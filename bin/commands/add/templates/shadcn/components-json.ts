@@ -0,0 +1,46 @@
+export const reactComponentsJsonContent = JSON.stringify(
+    {
+        $schema: "https://ui.shadcn.com/schema.json",
+        style: "new-york",
+        rsc: false,
+        tsx: true,
+        tailwind: {
+            css: "static/master.css",
+            baseColor: "slate",
+            cssVariables: true,
+            config: "",
+            prefix: "",
+        },
+        aliases: {
+            components: "components",
+            utils: "components/lib/utils",
+            ui: "components/ui",
+            hooks: "components/ui/hooks",
+            lib: "components/lib",
+        },
+        iconLibrary: "lucide",
+    },
+    null,
+    4
+);
+
+export const svelteComponentsJsonContent = JSON.stringify(
+    {
+        $schema: "https://shadcn-svelte.com/schema.json",
+        tailwind: {
+            css: "static/master.css",
+            baseColor: "slate",
+        },
+        aliases: {
+            components: "components",
+            utils: "components/lib/utils",
+            ui: "components/ui",
+            hooks: "components/ui/hooks",
+            lib: "components/lib",
+        },
+        typescript: true,
+        registry: "https://shadcn-svelte.com/registry",
+    },
+    null,
+    4
+);
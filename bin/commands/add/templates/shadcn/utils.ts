@@ -0,0 +1,15 @@
+export const reactUtilsContent = `import { clsx } from "clsx"
+import { twMerge } from "tailwind-merge"
+
+export function cn(...inputs) {
+  return twMerge(clsx(inputs))
+}
+`;
+
+export const svelteUtilsContent = `import { clsx } from "clsx";
+import { twMerge } from "tailwind-merge";
+ 
+export function cn(...inputs) {
+ return twMerge(clsx(inputs));
+}
+`;
@@ -0,0 +1,52 @@
+// config/database/index.ts for each driver px add store installs. Values come
+// from .env, falling back to what px add store writes there.
+
+export const sqliteConfigContent = `import sqlite from "@primate/sqlite";
+
+export default sqlite({
+    database: process.env.DB_PATH ?? "app.sqlite",
+});
+`;
+
+export const postgresqlConfigContent = `import postgresql from "@primate/postgresql";
+
+export default postgresql({
+    host: process.env.DB_HOST ?? "localhost",
+    port: Number(process.env.DB_PORT ?? 5432),
+    database: process.env.DB_NAME ?? "app",
+    username: process.env.DB_USER ?? "postgres",
+    password: process.env.DB_PASSWORD,
+});
+`;
+
+export const mysqlConfigContent = `import mysql from "@primate/mysql";
+
+export default mysql({
+    host: process.env.DB_HOST ?? "localhost",
+    port: Number(process.env.DB_PORT ?? 3306),
+    database: process.env.DB_NAME ?? "app",
+    username: process.env.DB_USER ?? "root",
+    password: process.env.DB_PASSWORD,
+});
+`;
+
+export const mongodbConfigContent = `import mongodb from "@primate/mongodb";
+
+export default mongodb({
+    host: process.env.DB_HOST ?? "localhost",
+    port: Number(process.env.DB_PORT ?? 27017),
+    database: process.env.DB_NAME ?? "app",
+});
+`;
+
+export const surrealdbConfigContent = `import surrealdb from "@primate/surrealdb";
+
+export default surrealdb({
+    host: process.env.DB_HOST ?? "http://localhost",
+    port: Number(process.env.DB_PORT ?? 8000),
+    namespace: process.env.DB_NAMESPACE ?? "app",
+    database: process.env.DB_NAME ?? "app",
+    username: process.env.DB_USER ?? "root",
+    password: process.env.DB_PASSWORD,
+});
+`;
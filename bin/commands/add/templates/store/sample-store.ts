@@ -0,0 +1,13 @@
+export const sampleStoreContent = `import primary from "pema/primary";
+import string from "pema/string";
+import store from "primate/store";
+
+// A sample store: one record per post. Use it in a route with
+//   import Post from "../stores/Post.ts";
+//   await Post.insert({ title: "Hello", body: "First post" });
+export default store({
+    id: primary,
+    title: string,
+    body: string,
+});
+`;
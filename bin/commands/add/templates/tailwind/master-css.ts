@@ -0,0 +1 @@
+export const masterCssContent = `@import "tailwindcss";`;
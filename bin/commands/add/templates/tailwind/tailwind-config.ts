@@ -0,0 +1,14 @@
+export const tailwindConfigContent = `/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    "./views/**/*.{js,ts,jsx,tsx,svelte,vue}",
+    "./components/**/*.{js,ts,jsx,tsx,svelte,vue}",
+    "./routes/**/*.{js,ts}",
+    "./lib/**/*.{js,ts,jsx,tsx,svelte,vue}",
+  ],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+`;
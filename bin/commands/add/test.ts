@@ -1,14 +1,29 @@
 import { checkbox } from "@inquirer/prompts";
 import boxen from "boxen";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import ora from "ora";
 import { join } from "path";
-import { installPackages } from "../../utils/packages.ts";
+import {
+    changeMode,
+    projectFileExists,
+    readProjectFile,
+    removeGeneratedFile,
+    updateGitignore,
+    writeProjectFile,
+} from "../../utils/changes.ts";
+import type { PxModule } from "../../utils/modules.ts";
+import {
+    installPackages,
+    removablePackages,
+    uninstallPackages,
+} from "../../utils/packages.ts";
 import {
     detectManager,
     detectPort,
     findProjectRoot,
+    type PackageManager,
 } from "../../utils/project.ts";
+import { ask } from "../../utils/prompt.ts";
+import { packageRunner, resolveRuntime } from "../../utils/runtime.ts";
 import { fixturesContent } from "./templates/test/fixtures.ts";
 import { homeFeatureContent } from "./templates/test/home-feature.ts";
 import { homePageContent } from "./templates/test/HomePage.ts";
@@ -18,72 +33,97 @@ import { vitestSetupClientContent } from "./templates/test/vitest-setup-client.t
 
 type TestOption = "vitest" | "playwright";
 
+// Files px add test may create or change, besides package.json and the lockfile
+export const TEST_FILES = [
+    "vitest.config.js",
+    "vitest-setup-client.ts",
+    "playwright.config.ts",
+    ".gitignore",
+    join("test", "e2e", "features", "home.feature"),
+    join("test", "e2e", "features", "steps", "fixtures.ts"),
+    join("test", "e2e", "features", "steps", "HomePage.ts"),
+];
+
+// What each setup installs, as dev dependencies
+export const VITEST_PACKAGES = [
+    "vitest",
+    "@vitest/browser",
+    "vitest-browser-svelte",
+    "@vitest/browser-playwright",
+    "@sveltejs/vite-plugin-svelte",
+    "@vitest/ui",
+];
+export const PLAYWRIGHT_PACKAGES = ["@playwright/test", "playwright", "playwright-bdd"];
+
+// package.json scripts the Vitest setup adds
+const VITEST_SCRIPTS: Record<string, string> = {
+    test: "vitest run",
+    "test:ui": "vitest --ui",
+    "test:watch": "vitest",
+};
+
+// The e2e script the Playwright setup adds, for each package manager
+const E2E_SCRIPTS: Record<string, string> = {
+    bun: "bunx bddgen && playwright test",
+    pnpm: "pnpm dlx bddgen && playwright test",
+    yarn: "yarn dlx bddgen && playwright test",
+    npm: "npx bddgen && playwright test",
+};
+
+// .gitignore entries the Playwright setup adds
+const PLAYWRIGHT_GITIGNORE = [".features-gen/", "playwright-report/", "test-results/"];
+
 // Check if Vitest is already configured
-function isVitestConfigured(projectRoot: string): boolean {
+export function isVitestConfigured(projectRoot: string): boolean {
     const configPath = join(projectRoot, "vitest.config.js");
-    if (!existsSync(configPath)) {
+    if (!projectFileExists(configPath)) {
         return false;
     }
 
-    const packageJsonPath = join(projectRoot, "package.json");
-    if (!existsSync(packageJsonPath)) {
+    const packageJson = readProjectFile(join(projectRoot, "package.json"));
+    if (packageJson === null) {
         return false;
     }
 
     try {
-        const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
-        return !!(
-            packageJson.devDependencies && packageJson.devDependencies.vitest
-        );
+        const { devDependencies } = JSON.parse(packageJson);
+        return !!(devDependencies && devDependencies.vitest);
     } catch {
         return false;
     }
 }
 
 // Check if Playwright is already configured
-function isPlaywrightConfigured(projectRoot: string): boolean {
+export function isPlaywrightConfigured(projectRoot: string): boolean {
     const configPath = join(projectRoot, "playwright.config.ts");
-    if (!existsSync(configPath)) {
+    if (!projectFileExists(configPath)) {
         return false;
     }
 
-    const packageJsonPath = join(projectRoot, "package.json");
-    if (!existsSync(packageJsonPath)) {
+    const packageJson = readProjectFile(join(projectRoot, "package.json"));
+    if (packageJson === null) {
         return false;
     }
 
     try {
-        const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
-        return !!(
-            packageJson.devDependencies &&
-            packageJson.devDependencies["@playwright/test"]
-        );
+        const { devDependencies } = JSON.parse(packageJson);
+        return !!(devDependencies && devDependencies["@playwright/test"]);
     } catch {
         return false;
     }
 }
 
-// Update .gitignore with test-related entries
-function updateGitignore(projectRoot: string, entries: string[]): void {
-    const gitignorePath = join(projectRoot, ".gitignore");
-
-    let content = "";
-    if (existsSync(gitignorePath)) {
-        content = readFileSync(gitignorePath, "utf-8");
-    }
-
-    const lines = content.split("\n");
-    const entriesToAdd = entries.filter((entry) => !lines.includes(entry));
-
-    if (entriesToAdd.length > 0) {
-        const newContent =
-            content.trim() + "\n" + entriesToAdd.join("\n") + "\n";
-        writeFileSync(gitignorePath, newContent);
-    }
+// Ask user which testing setup they want, unless --yes or --non-interactive
+async function askTestChoice(): Promise<TestOption[]> {
+    return ask({
+        about: "which tests to set up",
+        flags: ["--unit", "--e2e", "--unit --e2e"],
+        fallback: { value: ["vitest"], label: "Vitest unit tests" },
+        prompt: promptTestChoice,
+    });
 }
 
-// Ask user which testing setup they want
-async function askTestChoice(): Promise<TestOption[]> {
+async function promptTestChoice(): Promise<TestOption[]> {
     const answer = await checkbox({
         message:
             "Select testing setup (use space to select, enter to confirm):",
@@ -124,20 +164,17 @@ async function setupVitest(
     const spinner = ora("Installing Vitest and dependencies...").start();
 
     try {
-        await installPackages(
+        const installed = await installPackages(
             projectRoot,
-            [
-                "vitest",
-                "@vitest/browser",
-                "vitest-browser-svelte",
-                "@vitest/browser-playwright",
-                "@sveltejs/vite-plugin-svelte",
-                "@vitest/ui",
-            ],
+            VITEST_PACKAGES,
             manager as any,
             true
         );
-        spinner.succeed("Installed Vitest dependencies");
+        if (installed) {
+            spinner.succeed("Installed Vitest dependencies");
+        } else {
+            spinner.stop();
+        }
     } catch (error) {
         spinner.fail("Failed to install dependencies");
         throw error;
@@ -145,28 +182,37 @@ async function setupVitest(
 
     // Create vitest.config.js
     const vitestConfigPath = join(projectRoot, "vitest.config.js");
-    writeFileSync(vitestConfigPath, vitestConfigContent);
-    console.log("✅ Created vitest.config.js");
+    if (await writeProjectFile(projectRoot, vitestConfigPath, vitestConfigContent)) {
+        console.log("✅ Created vitest.config.js");
+    }
 
     // Create vitest-setup-client.ts
     const setupClientPath = join(projectRoot, "vitest-setup-client.ts");
-    writeFileSync(setupClientPath, vitestSetupClientContent);
-    console.log("✅ Created vitest-setup-client.ts");
+    if (await writeProjectFile(projectRoot, setupClientPath, vitestSetupClientContent)) {
+        console.log("✅ Created vitest-setup-client.ts");
+    }
 
     // Update package.json scripts
     const packageJsonPath = join(projectRoot, "package.json");
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+    const packageJson = JSON.parse(readProjectFile(packageJsonPath) ?? "{}");
 
     if (!packageJson.scripts) {
         packageJson.scripts = {};
     }
 
-    packageJson.scripts.test = "vitest run";
-    packageJson.scripts["test:ui"] = "vitest --ui";
-    packageJson.scripts["test:watch"] = "vitest";
+    Object.assign(packageJson.scripts, VITEST_SCRIPTS);
 
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
-    console.log("✅ Updated package.json scripts");
+    if (
+        await writeProjectFile(
+            projectRoot,
+            packageJsonPath,
+            JSON.stringify(packageJson, null, 2)
+        )
+    ) {
+        console.log("✅ Updated package.json scripts");
+    }
+
+    if (changeMode() === "dry-run") return;
 
     // Get the appropriate run command for the package manager
     const runCommands: Record<string, string> = {
@@ -190,10 +236,17 @@ async function setupVitest(
     );
 }
 
+// The command prefix playwright.config.ts starts Primate with: the project's
+// own runner under the runtime px run would pick
+function primateRunner(projectRoot: string, manager: PackageManager): string {
+    const { runtime } = resolveRuntime(projectRoot, manager);
+    return packageRunner(runtime, manager).join(" ");
+}
+
 // Setup Playwright
 async function setupPlaywright(
     projectRoot: string,
-    manager: string
+    manager: PackageManager
 ): Promise<void> {
     console.log(
         boxen("🎭 Setting up Playwright with BDD", {
@@ -207,95 +260,89 @@ async function setupPlaywright(
     // Detect port from project config
     const port = detectPort(projectRoot);
 
-    // Define package runner based on manager
-    const packageRunnerMap: Record<string, string> = {
-        bun: "bunx --bun",
-        pnpm: "pnpm exec",
-        yarn: "yarn",
-        npm: "npx",
-    };
-    const packageRunner = packageRunnerMap[manager] || "npx";
-
     // Install packages
     const spinner = ora("Installing Playwright and dependencies...").start();
 
     try {
-        await installPackages(
+        const installed = await installPackages(
             projectRoot,
-            ["@playwright/test", "playwright", "playwright-bdd"],
-            manager as any,
+            PLAYWRIGHT_PACKAGES,
+            manager,
             true
         );
-        spinner.succeed("Installed Playwright dependencies");
+        if (installed) {
+            spinner.succeed("Installed Playwright dependencies");
+        } else {
+            spinner.stop();
+        }
     } catch (error) {
         spinner.fail("Failed to install dependencies");
         throw error;
     }
 
-    // Create directory structure
-    const testDir = join(projectRoot, "test");
-    const e2eDir = join(testDir, "e2e");
-    const featuresDir = join(e2eDir, "features");
+    // Directories are created along with the files in them
+    const featuresDir = join(projectRoot, "test", "e2e", "features");
     const stepsDir = join(featuresDir, "steps");
 
-    [testDir, e2eDir, featuresDir, stepsDir].forEach((dir) => {
-        if (!existsSync(dir)) {
-            mkdirSync(dir, { recursive: true });
-        }
-    });
-    console.log("✅ Created test directory structure");
-
     // Create home.feature
     const homeFeaturePath = join(featuresDir, "home.feature");
-    writeFileSync(homeFeaturePath, homeFeatureContent);
-    console.log("✅ Created test/e2e/features/home.feature");
+    if (await writeProjectFile(projectRoot, homeFeaturePath, homeFeatureContent)) {
+        console.log("✅ Created test/e2e/features/home.feature");
+    }
 
     // Create fixtures.ts
     const fixturesPath = join(stepsDir, "fixtures.ts");
-    writeFileSync(fixturesPath, fixturesContent);
-    console.log("✅ Created test/e2e/features/steps/fixtures.ts");
+    if (await writeProjectFile(projectRoot, fixturesPath, fixturesContent)) {
+        console.log("✅ Created test/e2e/features/steps/fixtures.ts");
+    }
 
     // Create HomePage.ts
     const homePagePath = join(stepsDir, "HomePage.ts");
-    writeFileSync(homePagePath, homePageContent(port));
-    console.log("✅ Created test/e2e/features/steps/HomePage.ts");
+    if (await writeProjectFile(projectRoot, homePagePath, homePageContent(port))) {
+        console.log("✅ Created test/e2e/features/steps/HomePage.ts");
+    }
 
     // Create playwright.config.ts
     const playwrightConfigPath = join(projectRoot, "playwright.config.ts");
-    writeFileSync(
-        playwrightConfigPath,
-        playwrightConfigContent(port, packageRunner)
-    );
-    console.log("✅ Created playwright.config.ts");
+    if (
+        await writeProjectFile(
+            projectRoot,
+            playwrightConfigPath,
+            playwrightConfigContent(port, primateRunner(projectRoot, manager))
+        )
+    ) {
+        console.log("✅ Created playwright.config.ts");
+    }
 
     // Update .gitignore
-    updateGitignore(projectRoot, [
-        ".features-gen/",
-        "playwright-report/",
-        "test-results/",
-    ]);
-    console.log("✅ Updated .gitignore");
+    if (
+        await updateGitignore(projectRoot, PLAYWRIGHT_GITIGNORE)
+    ) {
+        console.log("✅ Updated .gitignore");
+    }
 
     // Update package.json scripts
     const packageJsonPath = join(projectRoot, "package.json");
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+    const packageJson = JSON.parse(readProjectFile(packageJsonPath) ?? "{}");
 
     if (!packageJson.scripts) {
         packageJson.scripts = {};
     }
 
     // Set the e2e script based on package manager
-    const bddgenCommands: Record<string, string> = {
-        bun: "bunx bddgen",
-        pnpm: "pnpm dlx bddgen",
-        yarn: "yarn dlx bddgen",
-        npm: "npx bddgen",
-    };
-    const bddgenCommand = bddgenCommands[manager] || "npx bddgen";
-    packageJson.scripts.e2e = `${bddgenCommand} && playwright test`;
+    packageJson.scripts.e2e = E2E_SCRIPTS[manager] || E2E_SCRIPTS.npm;
+
+    if (
+        await writeProjectFile(
+            projectRoot,
+            packageJsonPath,
+            JSON.stringify(packageJson, null, 2)
+        )
+    ) {
+        console.log("✅ Updated package.json scripts");
+    }
 
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
-    console.log("✅ Updated package.json scripts");
+    if (changeMode() === "dry-run") return;
 
     // Get the appropriate run command for the package manager
     const runCommands: Record<string, string> = {
@@ -319,7 +366,9 @@ async function setupPlaywright(
     );
 }
 
-export async function addTest() {
+// Set up Vitest (--unit) and/or Playwright (--e2e), asking which when
+// neither flag is given and neither is configured yet
+export async function addTest(flags: { unit?: boolean; e2e?: boolean } = {}) {
     const projectRoot = findProjectRoot(process.cwd());
     const manager = detectManager(projectRoot);
 
@@ -362,7 +411,12 @@ export async function addTest() {
     // Ask user what to set up (skip if already configured)
     let choices: TestOption[];
 
-    if (!vitestConfigured && !playwrightConfigured) {
+    if (flags.unit || flags.e2e) {
+        choices = [
+            ...(flags.unit ? (["vitest"] as const) : []),
+            ...(flags.e2e ? (["playwright"] as const) : []),
+        ];
+    } else if (!vitestConfigured && !playwrightConfigured) {
         choices = await askTestChoice();
 
         if (choices.length === 0) {
@@ -399,3 +453,123 @@ export async function addTest() {
         }
     }
 }
+
+// Undo px add test, for whichever of Vitest and Playwright was set up.
+// Generated files and scripts edited since are kept unless force is set;
+// returns the ones that were.
+export async function removeTest(force: boolean = false): Promise<string[]> {
+    const projectRoot = findProjectRoot(process.cwd());
+    const manager = detectManager(projectRoot);
+    const port = detectPort(projectRoot);
+    const kept: string[] = [];
+
+    console.log(
+        boxen("🧹 Removing the testing setup", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "yellow",
+        })
+    );
+
+    // Step 1: Delete the configs and the Playwright templates
+    const featuresDir = join("test", "e2e", "features");
+    const generatedFiles: [string, string][] = [
+        ["vitest.config.js", vitestConfigContent],
+        ["vitest-setup-client.ts", vitestSetupClientContent],
+        [
+            "playwright.config.ts",
+            playwrightConfigContent(port, primateRunner(projectRoot, manager)),
+        ],
+        [join(featuresDir, "home.feature"), homeFeatureContent],
+        [join(featuresDir, "steps", "fixtures.ts"), fixturesContent],
+        [join(featuresDir, "steps", "HomePage.ts"), homePageContent(port)],
+    ];
+    for (const [file, content] of generatedFiles) {
+        const result = removeGeneratedFile(projectRoot, file, [content], force);
+        if (result === "removed") {
+            console.log(`✅ Removed ${file}`);
+        } else if (result === "edited") {
+            kept.push(file);
+        }
+    }
+
+    // Step 2: Remove the scripts from package.json
+    const packageJsonPath = join(projectRoot, "package.json");
+    const packageJsonText = readProjectFile(packageJsonPath);
+    if (packageJsonText !== null) {
+        const packageJson = JSON.parse(packageJsonText);
+        const scripts = packageJson.scripts ?? {};
+        const generated: [string, string[]][] = [
+            ...Object.entries(VITEST_SCRIPTS).map(
+                ([name, script]): [string, string[]] => [name, [script]]
+            ),
+            ["e2e", Object.values(E2E_SCRIPTS)],
+        ];
+
+        const removed: string[] = [];
+        for (const [name, versions] of generated) {
+            if (!(name in scripts)) continue;
+            if (force || versions.includes(scripts[name])) {
+                delete scripts[name];
+                removed.push(name);
+            } else {
+                kept.push(`package.json scripts.${name}`);
+            }
+        }
+
+        if (
+            removed.length > 0 &&
+            (await writeProjectFile(
+                projectRoot,
+                packageJsonPath,
+                JSON.stringify(packageJson, null, 2) +
+                    (packageJsonText.endsWith("\n") ? "\n" : "")
+            ))
+        ) {
+            console.log(`✅ Removed package.json scripts: ${removed.join(", ")}`);
+        }
+    }
+
+    // Step 3: Remove the Playwright entries from .gitignore, and the file if
+    // they were all it had
+    const gitignorePath = join(projectRoot, ".gitignore");
+    const gitignore = readProjectFile(gitignorePath);
+    if (gitignore !== null) {
+        const lines = gitignore.split("\n");
+        const remaining = lines.filter((line) => !PLAYWRIGHT_GITIGNORE.includes(line));
+
+        if (remaining.length < lines.length) {
+            if (remaining.join("").trim() === "") {
+                removeGeneratedFile(projectRoot, gitignorePath, [gitignore], force);
+                console.log("✅ Removed .gitignore");
+            } else if (
+                await writeProjectFile(projectRoot, gitignorePath, remaining.join("\n"))
+            ) {
+                console.log("✅ Removed Playwright entries from .gitignore");
+            }
+        }
+    }
+
+    // Step 4: Uninstall the packages px add installed, unless still imported
+    const packages = removablePackages(projectRoot, "test", [
+        ...VITEST_PACKAGES,
+        ...PLAYWRIGHT_PACKAGES,
+    ]);
+    if (packages.length > 0) {
+        await uninstallPackages(projectRoot, packages, manager);
+    }
+
+    return kept;
+}
+
+export const testModule: PxModule = {
+    name: "test",
+    description: "Vitest unit tests and/or Playwright BDD end-to-end tests",
+    files: TEST_FILES,
+    // Only both count as set up: with just one, addTest sets up the other
+    detect: (projectRoot) =>
+        isVitestConfigured(projectRoot) && isPlaywrightConfigured(projectRoot),
+    install: ({ options }) => addTest({ unit: !!options.unit, e2e: !!options.e2e }),
+    remove: ({ force }) => removeTest(force),
+};
@@ -0,0 +1,170 @@
+import boxen from "boxen";
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { extname, join, relative } from "path";
+import type { InstallOptions } from "../utils/policy.ts";
+import { runPrimate } from "../utils/primate.ts";
+import { detectPort, type detectManager } from "../utils/project.ts";
+import { runWithRecovery } from "../utils/recovery.ts";
+import { buildRules, loadRules } from "../utils/rules.ts";
+import { preflight, startSession } from "./run.ts";
+
+// Where primate build writes the app
+export const BUILD_DIR = "build";
+
+// How many of the largest files the summary lists
+const LARGEST_FILES = 8;
+
+// Files worth reporting a gzipped size for
+const COMPRESSIBLE = [".js", ".mjs", ".css", ".html", ".json", ".svg"];
+
+export interface BuildOptions {
+    runtime?: string;
+    report?: string;
+    yes?: boolean;
+    dryRun?: boolean;
+    // Print the artifact size summary (--no-summary turns it off)
+    summary?: boolean;
+}
+
+// A file in the build output
+interface Artifact {
+    path: string;
+    size: number;
+    gzip?: number;
+}
+
+// Human-readable byte count
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+// List every file in the build output with its size
+function collectArtifacts(buildDir: string, dir: string = buildDir): Artifact[] {
+    const artifacts: Artifact[] = [];
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            artifacts.push(...collectArtifacts(buildDir, path));
+        } else if (entry.isFile()) {
+            const size = statSync(path).size;
+            artifacts.push({
+                path: relative(buildDir, path),
+                size,
+                gzip: COMPRESSIBLE.includes(extname(entry.name))
+                    ? Bun.gzipSync(readFileSync(path)).length
+                    : undefined,
+            });
+        }
+    }
+
+    return artifacts;
+}
+
+// Print the total size of the build and its largest files
+function printBuildSummary(projectRoot: string): void {
+    const buildDir = join(projectRoot, BUILD_DIR);
+    if (!existsSync(buildDir)) {
+        console.log(`⚠️  No ${BUILD_DIR}/ directory to summarize`);
+        return;
+    }
+
+    const artifacts = collectArtifacts(buildDir).sort((a, b) => b.size - a.size);
+    const total = artifacts.reduce((sum, { size }) => sum + size, 0);
+    const width = Math.max(
+        0,
+        ...artifacts.slice(0, LARGEST_FILES).map(({ path }) => path.length)
+    );
+
+    const lines = artifacts
+        .slice(0, LARGEST_FILES)
+        .map(
+            ({ path, size, gzip }) =>
+                `${path.padEnd(width)}  ${formatSize(size).padStart(9)}${
+                    gzip !== undefined ? `  (${formatSize(gzip)} gzip)` : ""
+                }`
+        );
+    if (artifacts.length > LARGEST_FILES) {
+        lines.push(`... and ${artifacts.length - LARGEST_FILES} more`);
+    }
+
+    console.log(
+        boxen(
+            `📦 ${BUILD_DIR}/: ${artifacts.length} file(s), ${formatSize(total)}\n\n${lines.join("\n")}`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "green",
+            }
+        )
+    );
+}
+
+// Run primate build through the recovery loop
+export async function buildProject(
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>,
+    runner: string[],
+    args: string[],
+    install: InstallOptions
+) {
+    const port = detectPort(projectRoot);
+
+    return runWithRecovery({
+        projectRoot,
+        manager,
+        rules: loadRules(projectRoot, buildRules),
+        install,
+        async launch(attempt, stopPatterns) {
+            console.log(
+                boxen(
+                    `🏗️  Building with Primate${attempt > 1 ? ` (Attempt ${attempt})` : ""}`,
+                    {
+                        padding: 1,
+                        margin: 1,
+                        borderStyle: "round",
+                        borderColor: "cyan",
+                    }
+                )
+            );
+
+            const result = await runPrimate(projectRoot, ["build", ...args], {
+                runner,
+                stopPatterns,
+            });
+            return { ...result, port, readyMs: null, timedOut: false };
+        },
+    });
+}
+
+export async function buildCommand(args: string[], options: BuildOptions = {}) {
+    const { projectRoot, manager, runner } = startSession("build", args, options);
+
+    const install = { yes: options.yes, dryRun: options.dryRun };
+    await preflight(projectRoot, manager, install);
+
+    const { outcome, result } = await buildProject(
+        projectRoot,
+        manager,
+        runner,
+        args,
+        install
+    );
+
+    switch (outcome) {
+        case "success":
+            if (options.summary !== false) {
+                printBuildSummary(projectRoot);
+            }
+            process.exit(0);
+        case "dry-run":
+            process.exit(0);
+        case "max-attempts":
+            process.exit(1);
+        default:
+            process.exit(result.code || 1);
+    }
+}
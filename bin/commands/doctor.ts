@@ -0,0 +1,523 @@
+import boxen from "boxen";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { addCommand } from "./add.ts";
+import { detectFramework as detectShadcnFramework } from "./add/shadcn.ts";
+import { isTailwindSetup, TAILWIND_PACKAGES } from "./add/tailwind.ts";
+import { isPlaywrightConfigured, isVitestConfigured } from "./add/test.ts";
+import { detectFramework as detectComponentsFramework } from "./scn.ts";
+import {
+    configuredModules,
+    hasModule,
+    readAppConfig,
+} from "../utils/app-config.ts";
+import { declaredPackages, isInstalled } from "../utils/imports.ts";
+import { installPackages, managerWarnings } from "../utils/packages.ts";
+import { findFreePort, findPortOwner, isPortFree } from "../utils/port.ts";
+import {
+    describeManager,
+    detectManagerInfo,
+    detectPort,
+    findProjectRoot,
+    staleLockfiles,
+    type ManagerInfo,
+} from "../utils/project.ts";
+import { FRONTEND_PEERS } from "../utils/rules.ts";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+// The outcome of one health check
+export interface CheckResult {
+    name: string;
+    status: CheckStatus;
+    message: string;
+    // What to do about a warning or failure
+    fix?: string;
+    // px add module that fixes it, run by --fix
+    module?: string;
+    // Missing packages that fix it, installed by --fix
+    packages?: string[];
+    // Whether those are dev dependencies
+    dev?: boolean;
+}
+
+interface DoctorContext {
+    projectRoot: string;
+    managerInfo: ManagerInfo;
+    // config/app.ts source, null if missing
+    appConfig: string | null;
+}
+
+export interface DoctorOptions {
+    fix?: boolean;
+    json?: boolean;
+}
+
+const ICONS: Record<CheckStatus, string> = {
+    pass: "✅",
+    warn: "⚠️ ",
+    fail: "❌",
+};
+
+// @primate modules in config/app.ts ("@primate/react" -> "react")
+function configuredPrimateModules(projectRoot: string): string[] {
+    return configuredModules(readAppConfig(projectRoot))
+        .filter(({ source }) => source.startsWith("@primate/"))
+        .map(({ source }) => source.slice("@primate/".length));
+}
+
+// Major version of an installed package, here or hoisted above (workspaces), or null
+function installedMajor(projectRoot: string, name: string): number | null {
+    for (let dir = projectRoot; ; dir = dirname(dir)) {
+        const path = join(dir, "node_modules", name, "package.json");
+        if (existsSync(path)) {
+            try {
+                const major = parseInt(JSON.parse(readFileSync(path, "utf-8")).version, 10);
+                return Number.isNaN(major) ? null : major;
+            } catch {
+                return null;
+            }
+        }
+        if (dirname(dir) === dir) return null;
+    }
+}
+
+// Lockfiles, packageManager and the manager's version
+function checkManager({ managerInfo }: DoctorContext): CheckResult {
+    const name = "Package manager";
+    const described = describeManager(managerInfo);
+
+    if (managerInfo.lockfiles.length === 0) {
+        return {
+            name,
+            status: "warn",
+            message: `${described}, but no lockfile`,
+            fix: `Run ${managerInfo.manager} install to create one`,
+        };
+    }
+
+    const stale = staleLockfiles(managerInfo);
+    if (stale.length > 0) {
+        return {
+            name,
+            status: "warn",
+            message: `${described}, with stale ${stale.join(", ")}`,
+            fix: `Run px pm switch ${managerInfo.manager} to remove the others`,
+        };
+    }
+
+    const [warning] = managerWarnings(managerInfo);
+    if (warning) {
+        return { name, status: "warn", message: warning };
+    }
+
+    return { name, status: "pass", message: described };
+}
+
+// config/app.ts exists and is valid TypeScript
+function checkAppConfig({ appConfig }: DoctorContext): CheckResult {
+    const name = "config/app.ts";
+
+    if (appConfig === null) {
+        return {
+            name,
+            status: "warn",
+            message: "Not found, Primate runs with its defaults",
+            fix: "Create config/app.ts to configure modules and the port",
+        };
+    }
+
+    try {
+        new Bun.Transpiler({ loader: "ts" }).scanImports(appConfig);
+    } catch (error) {
+        // Bun throws a BuildMessage, or an AggregateError of them
+        const first = error instanceof AggregateError ? error.errors[0] : error;
+        const position = first instanceof BuildMessage ? first.position : null;
+        return {
+            name,
+            status: "fail",
+            message: position
+                ? `Syntax error at line ${position.line}, column ${position.column}: ${position.lineText.trim()}`
+                : "Syntax error",
+            fix: "Fix it, Primate can't load the config until then",
+        };
+    }
+
+    return { name, status: "pass", message: "Parses" };
+}
+
+// Frontends in config/app.ts against installed @primate packages and their peers
+function checkFrontends({
+    projectRoot,
+    managerInfo,
+    appConfig,
+}: DoctorContext): CheckResult {
+    const name = "Frontends";
+    const configured = (appConfig ? configuredPrimateModules(projectRoot) : []).filter(
+        (module) => module in FRONTEND_PEERS
+    );
+
+    const missing = configured.flatMap((frontend) =>
+        [`@primate/${frontend}`, ...FRONTEND_PEERS[frontend]!].filter(
+            (pkg) => !isInstalled(projectRoot, pkg)
+        )
+    );
+    if (missing.length > 0) {
+        return {
+            name,
+            status: "fail",
+            message: `Not installed: ${missing.join(", ")}`,
+            fix: `Run ${managerInfo.manager} add ${missing.join(" ")}`,
+            packages: missing,
+        };
+    }
+
+    const unused = Array.from(declaredPackages(projectRoot))
+        .filter((pkg) => pkg.startsWith("@primate/"))
+        .map((pkg) => pkg.slice("@primate/".length))
+        .filter(
+            (module) => module in FRONTEND_PEERS && !configured.includes(module)
+        );
+    if (unused.length > 0) {
+        return {
+            name,
+            status: "warn",
+            message: `Installed but not in config/app.ts: ${unused
+                .map((module) => `@primate/${module}`)
+                .join(", ")}`,
+            fix: "Add them to modules in config/app.ts, or uninstall them",
+        };
+    }
+
+    return {
+        name,
+        status: "pass",
+        message: configured.length > 0 ? configured.join(", ") : "None configured",
+    };
+}
+
+// Tailwind setup and whether master.css matches the installed major version
+function checkTailwind({ projectRoot, managerInfo }: DoctorContext): CheckResult {
+    const name = "Tailwind";
+    const configured = hasModule(readAppConfig(projectRoot), "@primate/tailwind");
+    const major = installedMajor(projectRoot, "tailwindcss");
+
+    if (!configured && major === null) {
+        return { name, status: "pass", message: "Not used" };
+    }
+
+    if (!isTailwindSetup(projectRoot)) {
+        return {
+            name,
+            status: "warn",
+            message: "Partially set up",
+            fix: "Run px add tailwind",
+            module: "tailwind",
+        };
+    }
+
+    // px add tailwind counts it as set up from its files alone
+    const missing = TAILWIND_PACKAGES.filter((pkg) => !isInstalled(projectRoot, pkg));
+    if (missing.length > 0) {
+        return {
+            name,
+            status: "warn",
+            message: `Not installed: ${missing.join(", ")}`,
+            fix: `Run ${managerInfo.manager} add ${missing.join(" ")}`,
+            packages: missing,
+        };
+    }
+    if (major === null) {
+        return { name, status: "warn", message: "tailwindcss has no readable version" };
+    }
+
+    // v4 imports tailwindcss, v3 uses @tailwind directives
+    const css = readFileSync(join(projectRoot, "static", "master.css"), "utf-8");
+    const cssStyle = /@import\s+["']tailwindcss["']/.test(css)
+        ? 4
+        : /@tailwind\s+(?:base|components|utilities)/.test(css)
+          ? 3
+          : null;
+
+    if (cssStyle === null) {
+        return {
+            name,
+            status: "warn",
+            message: "static/master.css doesn't load Tailwind",
+            fix: major >= 4
+                ? 'Add @import "tailwindcss"; to static/master.css'
+                : "Add the @tailwind base, components and utilities directives to static/master.css",
+        };
+    }
+    if ((major >= 4) !== (cssStyle === 4)) {
+        return {
+            name,
+            status: "fail",
+            message: `tailwindcss ${major} is installed, but static/master.css is written for v${cssStyle}`,
+            fix: major >= 4
+                ? 'Replace the @tailwind directives with @import "tailwindcss";'
+                : `Install tailwindcss@4, or use the @tailwind directives`,
+        };
+    }
+
+    return { name, status: "pass", message: `tailwindcss ${major}` };
+}
+
+// components.json against its framework and the folders its aliases point at
+function checkShadcn({ projectRoot, appConfig }: DoctorContext): CheckResult {
+    const name = "shadcn/ui";
+    const componentsJsonPath = join(projectRoot, "components.json");
+
+    if (!existsSync(componentsJsonPath)) {
+        return { name, status: "pass", message: "Not used" };
+    }
+
+    let aliases: Record<string, string>;
+    try {
+        const componentsJson = JSON.parse(readFileSync(componentsJsonPath, "utf-8"));
+        aliases = componentsJson.aliases ?? {};
+    } catch {
+        return {
+            name,
+            status: "fail",
+            message: "components.json is not valid JSON",
+            fix: "Fix it, or delete it and run px add shadcn",
+        };
+    }
+
+    // components.json is for one framework, config/app.ts must have it
+    const framework = detectComponentsFramework(projectRoot);
+    const configured = appConfig ? detectShadcnFramework(projectRoot) : null;
+    if (framework && configured && configured !== "both" && configured !== framework) {
+        return {
+            name,
+            status: "fail",
+            message: `components.json is for ${framework}, config/app.ts uses ${configured}`,
+            fix: "Delete components.json and run px add shadcn",
+        };
+    }
+
+    const problems: string[] = [];
+    for (const [alias, path] of Object.entries(aliases)) {
+        if (!path.startsWith("components")) {
+            problems.push(
+                `${alias} points at ${path}, px scn only rewrites components/ imports`
+            );
+        } else if (alias === "utils") {
+            const utilsExists = ["", ".js", ".ts"].some((ext) =>
+                existsSync(join(projectRoot, path + ext))
+            );
+            if (!utilsExists) {
+                problems.push(`utils (${path}) is missing`);
+            }
+        } else if (alias === "components" || alias === "lib") {
+            if (!existsSync(join(projectRoot, path))) {
+                problems.push(`${alias} folder ${path}/ is missing`);
+            }
+        }
+        // ui and hooks are created by the first px scn add
+    }
+
+    // px add shadcn skips a project with components.json, so --fix can't help
+    if (problems.length > 0) {
+        return {
+            name,
+            status: "warn",
+            message: problems.join("; "),
+            fix: "Delete components.json and run px add shadcn to recreate the missing files",
+        };
+    }
+
+    return { name, status: "pass", message: framework ?? "Configured" };
+}
+
+// Vitest and Playwright: configured fully, partially or not at all
+function checkTests({ projectRoot, managerInfo }: DoctorContext): CheckResult {
+    const name = "Tests";
+    const vitest = isVitestConfigured(projectRoot);
+    const playwright = isPlaywrightConfigured(projectRoot);
+
+    // A config without its package: install the package, keeping the config
+    const missing: [string, string][] = [];
+    if (!vitest && existsSync(join(projectRoot, "vitest.config.js"))) {
+        missing.push(["vitest.config.js", "vitest"]);
+    }
+    if (!playwright && existsSync(join(projectRoot, "playwright.config.ts"))) {
+        missing.push(["playwright.config.ts", "@playwright/test"]);
+    }
+
+    if (missing.length > 0) {
+        const packages = missing.map(([, pkg]) => pkg);
+        return {
+            name,
+            status: "warn",
+            message: missing.map(([config, pkg]) => `${config} without ${pkg}`).join(", "),
+            fix: `Run ${managerInfo.manager} add -D ${packages.join(" ")}`,
+            packages,
+            dev: true,
+        };
+    }
+    // Not broken, so --fix doesn't set up tests nobody asked for
+    if (!vitest && !playwright) {
+        return {
+            name,
+            status: "warn",
+            message: "No test setup",
+            fix: "Run px add test to set up Vitest or Playwright",
+        };
+    }
+
+    return {
+        name,
+        status: "pass",
+        message: [vitest && "Vitest", playwright && "Playwright"]
+            .filter(Boolean)
+            .join(", "),
+    };
+}
+
+// Whether px run could bind the configured port
+async function checkPort({ projectRoot }: DoctorContext): Promise<CheckResult> {
+    const name = "Port";
+    const port = detectPort(projectRoot);
+
+    if (await isPortFree(port)) {
+        return { name, status: "pass", message: `${port} is free` };
+    }
+
+    const owner = await findPortOwner(port);
+    const freePort = await findFreePort(port);
+    return {
+        name,
+        status: "warn",
+        message: `${port} is in use${owner ? ` by ${owner.command} (PID ${owner.pid})` : ""}`,
+        fix: freePort ? `Stop it, or run px run --port ${freePort}` : "Stop it",
+    };
+}
+
+const CHECKS = [
+    checkManager,
+    checkAppConfig,
+    checkFrontends,
+    checkTailwind,
+    checkShadcn,
+    checkTests,
+    checkPort,
+];
+
+// Run every check against the project
+export async function runChecks(projectRoot: string): Promise<CheckResult[]> {
+    const appConfigPath = join(projectRoot, "config", "app.ts");
+    const context: DoctorContext = {
+        projectRoot,
+        managerInfo: detectManagerInfo(projectRoot),
+        appConfig: existsSync(appConfigPath)
+            ? readFileSync(appConfigPath, "utf-8")
+            : null,
+    };
+
+    const results: CheckResult[] = [];
+    for (const check of CHECKS) {
+        results.push(await check(context));
+    }
+    return results;
+}
+
+// Print results one per line, with fixes underneath
+function printResults(results: CheckResult[]): void {
+    for (const result of results) {
+        console.log(`${ICONS[result.status]} ${result.name}: ${result.message}`);
+        if (result.fix && result.status !== "pass") {
+            console.log(`   💡 ${result.fix}`);
+        }
+    }
+}
+
+// Count results by status
+function summarize(results: CheckResult[]): Record<CheckStatus, number> {
+    const summary = { pass: 0, warn: 0, fail: 0 };
+    for (const result of results) {
+        summary[result.status]++;
+    }
+    return summary;
+}
+
+export async function doctorCommand(options: DoctorOptions = {}) {
+    const projectRoot = findProjectRoot(process.cwd());
+    let results = await runChecks(projectRoot);
+
+    if (options.json) {
+        const report = { projectRoot, checks: results, summary: summarize(results) };
+        console.log(JSON.stringify(report, null, 2));
+        process.exit(results.some((result) => result.status === "fail") ? 1 : 0);
+    }
+
+    console.log(
+        boxen("🩺 Checking your Primate project", {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "cyan",
+        })
+    );
+    console.log(`📂 Project root: ${projectRoot}\n`);
+
+    printResults(results);
+
+    const unresolved = results.filter((result) => result.status !== "pass");
+    const modules = Array.from(
+        new Set(unresolved.flatMap((result) => (result.module ? [result.module] : [])))
+    );
+    // Missing packages, dependencies apart from dev dependencies
+    const missing = (dev: boolean) =>
+        Array.from(
+            new Set(
+                unresolved.flatMap((result) =>
+                    !!result.dev === dev ? result.packages ?? [] : []
+                )
+            )
+        );
+    const packages = missing(false);
+    const devPackages = missing(true);
+    const { manager } = detectManagerInfo(projectRoot);
+    const fixes = [
+        packages.length > 0 && `${manager} add ${packages.join(" ")}`,
+        devPackages.length > 0 && `${manager} add -D ${devPackages.join(" ")}`,
+        modules.length > 0 && `px add ${modules.join(" ")}`,
+    ].filter(Boolean);
+
+    if (options.fix && fixes.length > 0) {
+        console.log(`\n🔧 Running ${fixes.join(" and ")}...\n`);
+        if (packages.length > 0) {
+            await installPackages(projectRoot, packages, manager);
+        }
+        if (devPackages.length > 0) {
+            await installPackages(projectRoot, devPackages, manager, true);
+        }
+        if (modules.length > 0) {
+            await addCommand(modules);
+        }
+
+        console.log("\n🩺 Checking again...\n");
+        results = await runChecks(projectRoot);
+        printResults(results);
+    } else if (fixes.length > 0) {
+        console.log(`\n💡 Run px doctor --fix to run ${fixes.join(" and ")}`);
+    }
+
+    const summary = summarize(results);
+    console.log(
+        boxen(
+            `${ICONS.pass} ${summary.pass} passed   ${ICONS.warn} ${summary.warn} warning(s)   ${ICONS.fail} ${summary.fail} failed`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor:
+                    summary.fail > 0 ? "red" : summary.warn > 0 ? "yellow" : "green",
+            }
+        )
+    );
+
+    process.exit(summary.fail > 0 ? 1 : 0);
+}
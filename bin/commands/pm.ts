@@ -0,0 +1,138 @@
+import boxen from "boxen";
+import { existsSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import ora from "ora";
+import { join } from "path";
+import { installAll, managerVersion } from "../utils/packages.ts";
+import {
+    describeManager,
+    detectManagerInfo,
+    findLockfiles,
+    findProjectRoot,
+    findWorkspace,
+    LOCKFILES,
+    PACKAGE_MANAGERS,
+    type PackageManager,
+} from "../utils/project.ts";
+
+// Migrate the project to another package manager
+export async function pmSwitchCommand(target: string) {
+    if (!PACKAGE_MANAGERS.includes(target as PackageManager)) {
+        console.error(
+            boxen(
+                `❌ Unknown package manager: ${target}\n\nAvailable package managers:\n${PACKAGE_MANAGERS.map((manager) => `  - ${manager}`).join("\n")}`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+    const manager = target as PackageManager;
+
+    const projectRoot = findProjectRoot(process.cwd());
+    // The lockfile and packageManager field live at the workspace root
+    const root = findWorkspace(projectRoot)?.root ?? projectRoot;
+    const current = detectManagerInfo(projectRoot);
+
+    const version = managerVersion(manager, root);
+    if (!version) {
+        console.error(
+            boxen(
+                `❌ ${manager} is not installed\n\nInstall it first, or run \`corepack enable\` for pnpm and yarn.`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+
+    const packageJsonPath = join(root, "package.json");
+    if (!existsSync(packageJsonPath)) {
+        console.error(`❌ No package.json found in ${root}`);
+        process.exit(1);
+    }
+
+    const lockfiles = findLockfiles(root);
+    const ownLockfiles = LOCKFILES.filter(([, owner]) => owner === manager).map(
+        ([file]) => file
+    );
+    const stale = lockfiles.filter((file) => !ownLockfiles.includes(file));
+    const pin = `${manager}@${version}`;
+    const originalPackageJson = readFileSync(packageJsonPath, "utf-8");
+    const packageJson = JSON.parse(originalPackageJson);
+
+    if (packageJson.packageManager === pin && stale.length === 0) {
+        console.log(`✅ Already using ${pin}`);
+        return;
+    }
+
+    console.log(
+        boxen(`🔀 Switching from ${describeManager(current)} to ${pin}`, {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "magenta",
+        })
+    );
+
+    console.log(`📂 Project root: ${root}\n`);
+
+    // Step 1: Pin the new manager
+    packageJson.packageManager = pin;
+    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + "\n");
+    console.log(`✅ Set packageManager to ${pin}`);
+
+    // Step 2: node_modules laid out by another manager confuses the new one
+    const spinner = ora("Removing node_modules...").start();
+    for (const dir of new Set([root, projectRoot])) {
+        rmSync(join(dir, "node_modules"), { recursive: true, force: true });
+    }
+    spinner.succeed("Removed node_modules");
+
+    // Step 3: Regenerate the lockfile - the old ones stay until this succeeds
+    const installed = await installAll(projectRoot, manager);
+    if (!installed) {
+        writeFileSync(packageJsonPath, originalPackageJson);
+        console.error(
+            boxen(
+                `❌ ${manager} install failed\n\npackage.json was restored and the existing lockfiles were kept.\nRun \`${current.manager} install\` to reinstall dependencies.`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+
+    // Step 4: Delete the stale lockfiles
+    for (const file of stale) {
+        unlinkSync(join(root, file));
+        console.log(`🗑️  Removed ${file}`);
+    }
+
+    const lockfile = findLockfiles(root).find((file) =>
+        ownLockfiles.includes(file)
+    );
+
+    console.log(
+        boxen(
+            `✅ Switched to ${pin}!\n\n📋 packageManager: ${pin}${lockfile ? `\n🔒 Lockfile: ${lockfile}` : ""}\n\nCommit package.json and the new lockfile.`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "green",
+            }
+        )
+    );
+}
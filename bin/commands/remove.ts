@@ -0,0 +1,78 @@
+import boxen from "boxen";
+import { findModule, moduleContext } from "../utils/modules.ts";
+import { detectManager, findProjectRoot } from "../utils/project.ts";
+import { runTransaction } from "../utils/transaction.ts";
+import { availableModules, isSetUp, unknownModule } from "./add.ts";
+
+export interface RemoveOptions {
+    // Also delete generated files edited since px add
+    force?: boolean;
+}
+
+// Undo a px add module
+export async function removeCommand(module: string, options: RemoveOptions = {}) {
+    const projectRoot = findProjectRoot(process.cwd());
+    const force = !!options.force;
+    const modules = await availableModules(projectRoot);
+
+    const found = findModule(modules, module);
+    if (!found) {
+        unknownModule(module, modules);
+    }
+    const { name, files = [], remove } = found.module;
+
+    if (!remove) {
+        console.error(`❌ The ${name} module (from ${found.source}) can't be removed by px`);
+        process.exit(1);
+    }
+
+    // Refuse to pull a module out from under those set up on top of it
+    const dependents: string[] = [];
+    for (const { module: other } of modules) {
+        if (other.dependencies?.includes(name) && (await isSetUp(other, projectRoot))) {
+            dependents.push(other.name);
+        }
+    }
+    if (dependents.length > 0 && !force) {
+        console.error(
+            boxen(
+                `❌ ${dependents.join(", ")} depend${dependents.length === 1 ? "s" : ""} on ${name}\n\nRun ${dependents
+                    .map((dependent) => `\`px remove ${dependent}\``)
+                    .join(", ")} first, or \`px remove ${name} --force\`.`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+
+    // Rolled back if it fails halfway, and px undo can bring the module back
+    const context = moduleContext(projectRoot, { force });
+    const kept =
+        (await runTransaction(projectRoot, `remove ${name}`, files, () =>
+            remove(context)
+        )) ?? [];
+
+    const notes =
+        kept.length > 0
+            ? `\n\n⚠️  Edited since px add, left in place:\n${kept
+                  .map((file) => `   ${file}`)
+                  .join("\n")}\n\nRun \`px remove ${name} --force\` to remove them too.`
+            : "";
+
+    console.log(
+        boxen(
+            `✅ Removed ${name}${notes}\n\n↩️  Changed your mind? \`px undo\` restores the files,\n   then run \`${detectManager(projectRoot)} install\`.`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: kept.length > 0 ? "yellow" : "green",
+            }
+        )
+    );
+}
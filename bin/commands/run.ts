@@ -1,142 +1,697 @@
 import boxen from "boxen";
+import { existsSync, readFileSync, watch } from "fs";
 import ora from "ora";
-import { findMissingPackages, installPackages } from "../utils/packages.ts";
-import { runPrimate } from "../utils/primate.ts";
-import { detectManager, findProjectRoot } from "../utils/project.ts";
-import { addCommand } from "./add/index.ts";
-
-// Check if output contains @primate/tailwind error
-function needsTailwindSetup(stdout: string, stderr: string): boolean {
-    const combined = stdout + "\n" + stderr;
-    return /Cannot find module\s+['"]@primate\/tailwind['"]/i.test(combined);
+import { join, relative } from "path";
+import {
+    classifyPackages,
+    describeClassification,
+    findUninstalledPackages,
+    isInstalled,
+    scanImports,
+} from "../utils/imports.ts";
+import {
+    installAll,
+    installPackages,
+    managerWarnings,
+} from "../utils/packages.ts";
+import {
+    applyPortOverride,
+    PORT_CONFLICT_ACTIONS,
+    resolvePortConflict,
+    restorePortOverride,
+    setPortConflictAction,
+} from "../utils/port.ts";
+import { setChangeMode } from "../utils/changes.ts";
+import { HMR_PATTERNS } from "../utils/output.ts";
+import { runPrimate, type RunPrimateOptions } from "../utils/primate.ts";
+import { onShutdown } from "../utils/process.ts";
+import { vetPackages, type InstallOptions } from "../utils/policy.ts";
+import { openBrowser, waitForReady } from "../utils/ready.ts";
+import {
+    describeManager,
+    detectManagerInfo,
+    type detectManager,
+    detectPort,
+    findProjectRoot,
+    findWorkspace,
+} from "../utils/project.ts";
+import {
+    MAX_ATTEMPTS,
+    printMatches,
+    reportAttempt,
+    runWithRecovery,
+    type LaunchResult,
+} from "../utils/recovery.ts";
+import {
+    applyRemediations,
+    isActionable,
+    loadRules,
+    matchRules,
+    type Rule,
+} from "../utils/rules.ts";
+import {
+    recordMissingPackages,
+    reserveStdoutForReport,
+    startReport,
+} from "../utils/report.ts";
+import { packageRunner, resolveRuntime } from "../utils/runtime.ts";
+import {
+    findMissingTypes,
+    findUntypedModules,
+    runTypeCheck,
+} from "../utils/types.ts";
+
+// Statically scan the project and install every missing import before launching
+export async function preflight(
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>,
+    options: InstallOptions = {}
+): Promise<void> {
+    const spinner = ora("Scanning imports...").start();
+
+    const imports = scanImports(projectRoot);
+    const { undeclared, uninstalled } = findUninstalledPackages(
+        projectRoot,
+        imports.keys()
+    );
+
+    if (undeclared.length === 0 && uninstalled.length === 0) {
+        spinner.succeed(
+            `Pre-flight: ${imports.size} import(s) scanned, nothing missing`
+        );
+        return;
+    }
+
+    spinner.warn(
+        `Pre-flight: ${undeclared.length + uninstalled.length} package(s) missing`
+    );
+    recordMissingPackages([...uninstalled, ...undeclared]);
+
+    // Declared but not installed (e.g. fresh clone) - a plain install fixes it
+    if (uninstalled.length > 0) {
+        console.log(`📦 Not installed: ${uninstalled.join(", ")}`);
+        if (options.dryRun) {
+            console.log(`🔍 Would run ${manager} install`);
+        } else {
+            await installAll(projectRoot, manager);
+        }
+    }
+
+    // Imported but not in package.json - one call for dependencies, one for
+    // packages only tests, configs or tooling import
+    if (undeclared.length > 0) {
+        console.log(
+            `📦 Not in package.json:\n${describeClassification(imports, undeclared)}`
+        );
+        const approved = await vetPackages(projectRoot, undeclared, options);
+        const { dependencies, devDependencies } = classifyPackages(
+            imports,
+            approved
+        );
+
+        if (options.dryRun) {
+            if (dependencies.length > 0) {
+                console.log(`🔍 Would install: ${dependencies.join(", ")}`);
+            }
+            if (devDependencies.length > 0) {
+                console.log(`🔍 Would install (dev): ${devDependencies.join(", ")}`);
+            }
+        } else {
+            if (dependencies.length > 0) {
+                await installPackages(projectRoot, dependencies, manager);
+            }
+            if (devDependencies.length > 0) {
+                await installPackages(projectRoot, devDependencies, manager, true);
+            }
+        }
+    }
+
+    console.log(""); // Add spacing
 }
 
-export async function runCommand(args: string[]) {
-    const cwd = process.cwd();
+// Type-check the project and install @types packages for untyped imports
+async function installMissingTypes(
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>,
+    runner: string[],
+    options: InstallOptions = {},
+    // Ask the registry about @types packages the local caches don't know
+    online: boolean = false
+): Promise<void> {
+    if (!isInstalled(projectRoot, "typescript")) {
+        console.log("⚠️  TypeScript is not installed, skipping the type check\n");
+        return;
+    }
 
-    const setupSpinner = ora("Initializing...").start();
+    const spinner = ora("Type-checking...").start();
 
-    const projectRoot = findProjectRoot(cwd);
-    const manager = detectManager(projectRoot);
+    const modules = findUntypedModules(await runTypeCheck(projectRoot, runner));
+    if (modules.size === 0) {
+        spinner.succeed("Types: no untyped imports");
+        return;
+    }
 
-    setupSpinner.succeed(`Project root: ${projectRoot}`);
-    console.log(`📋 Package manager: ${manager}\n`);
+    spinner.text = "Looking up @types packages...";
+    const { install, skipped } = await findMissingTypes(projectRoot, modules, online);
+
+    if (install.length === 0) {
+        spinner.info(`Types: ${modules.size} untyped import(s), no @types to install`);
+    } else {
+        spinner.warn(`Types: ${install.length} @types package(s) missing`);
+    }
+    for (const { name, reason } of skipped) {
+        console.log(`   ${name}: ${reason}`);
+    }
+
+    const approved = await vetPackages(projectRoot, install, {
+        ...options,
+        trusted: true,
+    });
+    if (approved.length > 0) {
+        if (options.dryRun) {
+            console.log(`🔍 Would install (dev): ${approved.join(", ")}`);
+        } else {
+            await installPackages(projectRoot, approved, manager, true);
+        }
+    }
+
+    console.log(""); // Add spacing
+}
+
+export interface RunOptions {
+    port?: string;
+    watch?: boolean;
+    runtime?: string;
+    report?: string;
+    open?: boolean;
+    readyTimeout?: string;
+    portConflict?: string;
+    yes?: boolean;
+    dryRun?: boolean;
+    types?: boolean;
+    typesRegistry?: boolean;
+    grep?: string;
+    hideHmr?: boolean;
+    timestamps?: boolean;
+    prefix?: boolean;
+}
+
+// State shared by the retry loop and the watch supervisor
+interface RunSession {
+    projectRoot: string;
+    manager: ReturnType<typeof detectManager>;
+    args: string[];
+    runner: string[];
+    rules: Rule[];
+    port: number;
+    usePort(port: number): void;
+    // Fail the launch if Primate doesn't answer within this long
+    readyTimeoutMs?: number;
+    // Open the browser the first time Primate is ready
+    open: boolean;
+    // --yes and --dry-run, passed on to every install
+    install: InstallOptions;
+    // Install @types packages after each pre-flight scan
+    types: boolean;
+    // Look @types packages up on the registry, not just in local caches
+    typesRegistry: boolean;
+    // How Primate's output is echoed
+    output: RunPrimateOptions["output"];
+}
 
-    const MAX_ATTEMPTS = 5;
+// Files whose changes restart Primate in watch mode
+const WATCHED_FILES = ["config/app.ts", "package.json", ".env"];
 
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-        if (attempt > 1) {
-            console.log(`\n🔄 Retry attempt ${attempt}/${MAX_ATTEMPTS}\n`);
+// A run that lasts this long counts as healthy and resets the crash backoff
+const STABLE_RUN_MS = 10_000;
+
+// Draw a nice box header
+function printHeader(port: number, suffix: string): void {
+    console.log(
+        boxen(`🚀 Running Primate on port ${port} ${suffix}`, {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "cyan",
+        })
+    );
+}
+
+// Launch Primate and poll its URL in parallel to report when it's up
+async function launch(
+    session: RunSession,
+    stopPatterns: RegExp[],
+    signal?: AbortSignal
+): Promise<LaunchResult & { aborted: boolean }> {
+    const controller = new AbortController();
+    signal?.addEventListener("abort", () => controller.abort());
+
+    const url = `http://localhost:${session.port}`;
+    let timedOut = false;
+
+    const readiness = waitForReady(url, {
+        timeoutMs: session.readyTimeoutMs,
+        signal: controller.signal,
+    }).then((readyMs) => {
+        if (readyMs !== null) {
+            console.log(
+                boxen(`✅ Primate is ready at ${url} (${(readyMs / 1000).toFixed(2)}s)`, {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "cyan",
+                })
+            );
+            if (session.install.dryRun) {
+                // Primate came up - nothing more a dry run can learn
+                controller.abort();
+            } else if (session.open) {
+                session.open = false; // Only once per session
+                openBrowser(url);
+            }
+        } else if (!controller.signal.aborted) {
+            // Gave up waiting - stop Primate so the launch fails
+            timedOut = true;
+            controller.abort();
         }
+        return readyMs;
+    });
+
+    const result = await runPrimate(session.projectRoot, session.args, {
+        runner: session.runner,
+        stopPatterns,
+        signal: controller.signal,
+        output: session.output,
+    });
+
+    // Primate exited, stop polling
+    controller.abort();
+    const readyMs = await readiness;
+
+    return {
+        ...result,
+        aborted: signal?.aborted ?? false,
+        port: session.port,
+        readyMs,
+        timedOut,
+    };
+}
+
+// Tell the user Primate never became healthy
+function printNotReady(session: RunSession): void {
+    console.error(
+        boxen(
+            `⏱️  Primate did not respond on port ${session.port} within ${
+                (session.readyTimeoutMs ?? 0) / 1000
+            }s`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "red",
+            }
+        )
+    );
+}
+
+// Read a watched file, or null if it doesn't exist
+function readWatched(projectRoot: string, file: string): string | null {
+    const filePath = join(projectRoot, file);
+    return existsSync(filePath) ? readFileSync(filePath, "utf-8") : null;
+}
+
+// Restart delay after consecutive crashes: 1s, 2s, 4s ... capped at 30s
+function backoffDelay(failures: number): number {
+    return Math.min(1000 * 2 ** failures, 30_000);
+}
+
+// Run Primate, remediating and retrying up to MAX_ATTEMPTS times
+async function runWithRetries(session: RunSession): Promise<never> {
+    const { outcome, result } = await runWithRecovery({
+        projectRoot: session.projectRoot,
+        manager: session.manager,
+        rules: session.rules,
+        install: session.install,
+        async launch(attempt, stopPatterns) {
+            // Check the port before launching instead of waiting for EADDRINUSE
+            session.usePort(await resolvePortConflict(session.port));
+
+            printHeader(session.port, attempt > 1 ? `(Attempt ${attempt})` : "");
+
+            return launch(session, stopPatterns);
+        },
+        onRemediated(applied) {
+            if (applied.port) {
+                session.usePort(applied.port);
+            }
+        },
+    });
+
+    switch (outcome) {
+        case "not-ready":
+            printNotReady(session);
+            process.exit(1);
+        case "dry-run":
+            process.exit(0);
+        case "unresolved":
+            process.exit(result.code || 1);
+        case "max-attempts":
+            process.exit(1);
+        default:
+            // Don't show completion box, just exit with Primate's code
+            process.exit(result.code);
+    }
+}
+
+// Keep Primate running: restart on config changes, back off after crashes,
+// and keep remediating missing packages for as long as px runs
+async function superviseWatch(session: RunSession): Promise<never> {
+    const { projectRoot, manager, rules } = session;
+
+    const state = {
+        controller: new AbortController(),
+        snapshot: new Map<string, string | null>(),
+        changed: null as string | null,
+        wake: () => {},
+    };
+
+    // Only react to real content changes, not to our own rewrites between runs
+    const onChange = (file: string) => {
+        if (readWatched(projectRoot, file) === state.snapshot.get(file)) return;
+        state.changed = file;
+        state.controller.abort();
+        state.wake();
+    };
 
-        // Draw a nice box header
+    const watchers = [projectRoot, join(projectRoot, "config")]
+        .filter((dir) => existsSync(dir))
+        .map((dir) =>
+            watch(dir, (_, filename) => {
+                if (!filename) return;
+                const file = relative(projectRoot, join(dir, filename));
+                if (WATCHED_FILES.includes(file)) onChange(file);
+            })
+        );
+    onShutdown(() => watchers.forEach((watcher) => watcher.close()));
+
+    console.log(`👀 Watching ${WATCHED_FILES.join(", ")}\n`);
+
+    let failures = 0;
+    let remediationRounds = 0;
+    let attempt = 0;
+
+    // Wait before restarting, longer after each failure in a row, but wake
+    // up early on file changes
+    const backOff = async (reason: string) => {
+        const delay = backoffDelay(failures++);
         console.log(
             boxen(
-                `🚀 Running Primate ${
-                    attempt > 1 ? `(Attempt ${attempt})` : ""
-                }`,
+                `💥 ${reason}\n\nRestarting in ${
+                    delay / 1000
+                }s, or as soon as a watched file changes`,
                 {
                     padding: 1,
                     margin: 1,
                     borderStyle: "round",
-                    borderColor: "cyan",
+                    borderColor: "red",
                 }
             )
         );
 
-        const { code, stdout, stderr, shouldContinue } = await runPrimate(
-            projectRoot,
-            args,
-            attempt < MAX_ATTEMPTS // Only check for errors if we have retries left
-        );
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, delay);
+            state.wake = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
+        state.wake = () => {};
 
-        // Check if @primate/tailwind is missing
-        if (needsTailwindSetup(stdout, stderr)) {
-            console.log(
-                boxen(
-                    "🎨 Detected missing @primate/tailwind\n\nRunning Tailwind setup...",
-                    {
-                        padding: 1,
-                        margin: 1,
-                        borderStyle: "round",
-                        borderColor: "magenta",
-                    }
-                )
-            );
+        if (state.changed) {
+            console.log(`\n🔁 ${state.changed} changed, restarting Primate...\n`);
+            failures = 0;
+            remediationRounds = 0;
+        }
+    };
+
+    // A failed install ends this round, not the supervisor. Returns null if
+    // it failed.
+    const installing = async <T>(work: () => Promise<T>): Promise<T | null> => {
+        try {
+            return await work();
+        } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    };
 
-            // Run px add tailwind
-            await addCommand("tailwind");
+    while (true) {
+        session.usePort(await resolvePortConflict(session.port));
 
-            // Run package manager install to ensure all dependencies are installed
-            const installSpinner = ora(`Running ${manager} install...`).start();
-            const { spawn } = await import("bun");
+        state.snapshot = new Map(
+            WATCHED_FILES.map((file) => [file, readWatched(projectRoot, file)])
+        );
+        state.controller = new AbortController();
+        state.changed = null;
 
-            const installCommands: Record<typeof manager, string[]> = {
-                bun: ["bun", "install"],
-                pnpm: ["pnpm", "install"],
-                yarn: ["yarn", "install"],
-                npm: ["npm", "install"],
-            };
+        printHeader(session.port, "(watch mode)");
 
-            const installProc = spawn({
-                cmd: installCommands[manager],
-                cwd: projectRoot,
-                stdout: "pipe",
-                stderr: "pipe",
-                stdin: "inherit",
-            });
+        attempt++;
+        const startedAt = Date.now();
+        const result = await launch(
+            session,
+            rules.map((rule) => rule.test),
+            state.controller.signal
+        );
+        const { code, stdout, stderr, aborted } = result;
 
-            await installProc.exited;
+        if (result.timedOut) {
+            printNotReady(session);
+        }
 
-            if (installProc.exitCode === 0) {
-                installSpinner.succeed(`${manager} install completed`);
-            } else {
-                installSpinner.fail(`${manager} install failed`);
+        if (aborted && state.changed) {
+            reportAttempt(attempt, startedAt, result, []);
+            console.log(`\n🔁 ${state.changed} changed, restarting Primate...\n`);
+            const installed =
+                state.changed !== "package.json" ||
+                (await installing(async () => {
+                    await preflight(projectRoot, manager, session.install);
+                    if (session.types) {
+                        await installMissingTypes(
+                            projectRoot,
+                            manager,
+                            session.runner,
+                            session.install,
+                            session.typesRegistry
+                        );
+                    }
+                    return true;
+                }));
+            if (!installed) {
+                await backOff("Installing the packages package.json needs failed");
+                continue;
             }
+            failures = 0;
+            remediationRounds = 0;
+            continue;
+        }
 
-            console.log("\n🔄 Retrying Primate...\n");
-            continue; // Retry after setup
+        if (Date.now() - startedAt > STABLE_RUN_MS) {
+            failures = 0;
+            remediationRounds = 0;
         }
 
-        const missingPkgs = findMissingPackages(stdout, stderr);
+        const matches = matchRules(rules, {
+            projectRoot,
+            stdout,
+            stderr,
+            port: session.port,
+        });
+        reportAttempt(attempt, startedAt, result, matches);
+        printMatches(matches);
 
-        if (missingPkgs.size === 0) {
-            // No missing packages - if process is still running (code 0), it succeeded
-            // Don't show completion box, just exit with the code
-            process.exit(code);
+        const remediations = matches.flatMap(({ match }) => match.remediations);
+
+        // Fix what we can and restart right away, unless fixes keep failing.
+        // If nothing could be fixed, wait for a file change like after a crash.
+        if (isActionable(remediations) && remediationRounds < MAX_ATTEMPTS) {
+            remediationRounds++;
+            const applied = (await installing(() =>
+                applyRemediations(remediations, projectRoot, manager, session.install)
+            )) ?? { changed: false };
+            if (applied.port) {
+                session.usePort(applied.port);
+            }
+            if (applied.changed) {
+                console.log("\n🔄 Restarting Primate...\n");
+                continue;
+            }
+        } else if (remediations.length > 0) {
+            await applyRemediations(
+                remediations.filter((remediation) => remediation.type === "hint"),
+                projectRoot,
+                manager
+            );
         }
 
-        // Draw a box showing we found missing packages
+        // Crashed (or exited)
+        await backOff(`Primate exited with code ${code}`);
+    }
+}
+
+// Find the project, print what px will run Primate with, and start the run
+// report. Shared by px run, px build and px serve.
+export function startSession(
+    command: string,
+    args: string[],
+    options: { runtime?: string; report?: string; dryRun?: boolean }
+) {
+    if (options.report && options.report !== "json") {
+        console.error(`❌ Unknown report format: ${options.report} (expected json)`);
+        process.exit(1);
+    }
+    if (options.report === "json") {
+        reserveStdoutForReport();
+    }
+    // A dry run writes nothing, .px included
+    if (options.dryRun) {
+        setChangeMode("dry-run");
+    }
+
+    const cwd = process.cwd();
+
+    const setupSpinner = ora("Initializing...").start();
+
+    const projectRoot = findProjectRoot(cwd);
+    const managerInfo = detectManagerInfo(projectRoot);
+    const manager = managerInfo.manager;
+
+    const { runtime, source } = resolveRuntime(
+        projectRoot,
+        manager,
+        options.runtime
+    );
+    const runner = packageRunner(runtime, manager);
+
+    setupSpinner.succeed(`Project root: ${projectRoot}`);
+    console.log(`📋 Package manager: ${describeManager(managerInfo)}`);
+    for (const warning of managerWarnings(managerInfo)) {
+        console.log(`⚠️  ${warning}`);
+    }
+    const workspace = findWorkspace(projectRoot);
+    if (workspace) {
         console.log(
-            boxen(`⚠️  Found ${missingPkgs.size} missing package(s)`, {
-                padding: 1,
-                margin: 1,
-                borderStyle: "round",
-                borderColor: "yellow",
-            })
+            `🗂️  Workspace: ${workspace.root} (package ${workspace.packageName ?? relative(workspace.root, projectRoot)})`
         );
+    }
+    console.log(`⚙️  Runtime: ${runtime} (from ${source}, via ${runner.join(" ")})\n`);
 
-        // Found missing packages
-        const pkgList = Array.from(missingPkgs);
-        console.log(`📦 Missing packages: ${pkgList.join(", ")}\n`);
+    startReport(
+        { command, args, projectRoot, manager, runtime },
+        options.report === "json" ? "json" : undefined
+    );
 
-        if (attempt === MAX_ATTEMPTS) {
+    return { projectRoot, manager, runner };
+}
+
+export async function runCommand(args: string[], options: RunOptions = {}) {
+    const { projectRoot, manager, runner } = startSession("run", args, options);
+
+    let grep: RegExp | undefined;
+    if (options.grep) {
+        try {
+            grep = new RegExp(options.grep, "i");
+        } catch (error) {
+            console.error(`❌ Invalid --grep pattern: ${(error as Error).message}`);
+            process.exit(1);
+        }
+    }
+
+    if (options.portConflict !== undefined) {
+        const action = PORT_CONFLICT_ACTIONS.find((action) => action === options.portConflict);
+        if (!action) {
             console.error(
-                boxen(`❌ Max attempts (${MAX_ATTEMPTS}) reached`, {
-                    padding: 1,
-                    margin: 1,
-                    borderStyle: "round",
-                    borderColor: "red",
-                })
+                `❌ Unknown --port-conflict action: ${options.portConflict} (use ${PORT_CONFLICT_ACTIONS.join(", ")})`
             );
             process.exit(1);
         }
+        setPortConflictAction(action);
+    }
+
+    const install = { yes: options.yes, dryRun: options.dryRun };
+    if (install.dryRun && options.watch) {
+        console.error("❌ --dry-run can't be combined with --watch");
+        process.exit(1);
+    }
 
-        // Install and retry
-        await installPackages(projectRoot, pkgList, manager);
-        console.log(""); // Add spacing
+    await preflight(projectRoot, manager, install);
+    if (options.types) {
+        await installMissingTypes(
+            projectRoot,
+            manager,
+            runner,
+            install,
+            options.typesRegistry ?? false
+        );
     }
 
-    // Should not reach here, but just in case
-    process.exit(1);
+    // A px run that died before putting its port back left it in config/app.ts
+    if (restorePortOverride(projectRoot)) {
+        console.log("↩️  Put back the port an earlier px run left in config/app.ts");
+    }
+    const configPort = detectPort(projectRoot);
+    let restorePort = () => {};
+
+    const session: RunSession = {
+        projectRoot,
+        manager,
+        args,
+        runner,
+        rules: loadRules(projectRoot),
+        port: configPort,
+        open: options.open ?? false,
+        install,
+        types: options.types ?? false,
+        typesRegistry: options.typesRegistry ?? false,
+        output: {
+            grep,
+            hide: options.hideHmr ? HMR_PATTERNS : [],
+            timestamps: options.timestamps ?? false,
+            prefix: options.prefix ?? false,
+        },
+        // Point Primate at a port other than the one in config/app.ts
+        usePort(nextPort: number) {
+            if (nextPort === this.port) return;
+            restorePort();
+            restorePort =
+                nextPort === configPort
+                    ? () => {}
+                    : applyPortOverride(projectRoot, nextPort);
+            this.port = nextPort;
+        },
+    };
+
+    if (options.port) {
+        const requested = Number(options.port);
+        if (!Number.isInteger(requested) || requested < 1 || requested > 65535) {
+            console.error(`❌ Invalid port: ${options.port}`);
+            process.exit(1);
+        }
+        session.usePort(requested);
+    }
+
+    if (options.readyTimeout) {
+        const seconds = Number(options.readyTimeout);
+        if (!(seconds > 0)) {
+            console.error(`❌ Invalid ready timeout: ${options.readyTimeout}`);
+            process.exit(1);
+        }
+        session.readyTimeoutMs = seconds * 1000;
+    }
+
+    if (options.watch) {
+        await superviseWatch(session);
+    } else {
+        await runWithRetries(session);
+    }
 }
@@ -3,13 +3,15 @@ import { existsSync, readFileSync, writeFileSync, unlinkSync } from "fs";
 import { join } from "path";
 import ora from "ora";
 import boxen from "boxen";
+import { pipeOutput } from "../utils/output.ts";
 import { findProjectRoot, detectManager } from "../utils/project.ts";
+import { promptMode } from "../utils/prompt.ts";
 import { addCommand } from "./add.ts";
 
 type Framework = "react" | "svelte";
 
 // Detect framework from components.json schema
-function detectFramework(projectRoot: string): Framework | null {
+export function detectFramework(projectRoot: string): Framework | null {
     const componentsJsonPath = join(projectRoot, "components.json");
     if (!existsSync(componentsJsonPath)) {
         return null;
@@ -38,16 +40,8 @@ async function getAddedFiles(projectRoot: string): Promise<string[]> {
         stderr: "pipe",
     });
 
-    let untrackedStdout = "";
-    const decoder = new TextDecoder();
-    let reader = untrackedProc.stdout.getReader();
-
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        untrackedStdout += decoder.decode(value);
-    }
-
+    const untracked = pipeOutput(untrackedProc, { echo: false });
+    await untracked.done;
     await untrackedProc.exited;
 
     // Get modified/added files (staged or unstaged)
@@ -58,28 +52,21 @@ async function getAddedFiles(projectRoot: string): Promise<string[]> {
         stderr: "pipe",
     });
 
-    let modifiedStdout = "";
-    reader = modifiedProc.stdout.getReader();
-
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        modifiedStdout += decoder.decode(value);
-    }
-
+    const modified = pipeOutput(modifiedProc, { echo: false });
+    await modified.done;
     await modifiedProc.exited;
 
     // Combine and deduplicate
     const allFiles = new Set<string>();
     
-    untrackedStdout.split("\n").forEach(line => {
+    untracked.stdout.split("\n").forEach(line => {
         const trimmed = line.trim();
         if (trimmed.startsWith("components/") && trimmed.length > 0) {
             allFiles.add(trimmed);
         }
     });
     
-    modifiedStdout.split("\n").forEach(line => {
+    modified.stdout.split("\n").forEach(line => {
         const trimmed = line.trim();
         if (trimmed.startsWith("components/") && trimmed.length > 0) {
             allFiles.add(trimmed);
@@ -221,7 +208,7 @@ export async function scnCommand(args: string[]) {
         );
 
         // Run px add shadcn
-        await addCommand("shadcn");
+        await addCommand(["shadcn"]);
 
         // Re-detect framework after setup
         framework = detectFramework(projectRoot);
@@ -277,18 +264,33 @@ export async function scnCommand(args: string[]) {
         })
     );
 
-    // Execute the shadcn command
-    const proc = spawn({
-        cmd,
-        cwd: projectRoot,
-        stdout: "inherit",
-        stderr: "inherit",
-        stdin: "inherit",
-    });
-
-    await proc.exited;
+    // Execute the shadcn command. Its prompts need the terminal, so it only
+    // goes through the pipeline when px can't ask anyway - and then output is
+    // passed through as it arrives, since prompts don't end in a newline
+    let exitCode: number;
+    if (promptMode() === "ask") {
+        const proc = spawn({
+            cmd,
+            cwd: projectRoot,
+            stdout: "inherit",
+            stderr: "inherit",
+            stdin: "inherit",
+        });
+        exitCode = await proc.exited;
+    } else {
+        const proc = spawn({
+            cmd,
+            cwd: projectRoot,
+            stdout: "pipe",
+            stderr: "pipe",
+            stdin: "inherit",
+        });
+        const output = pipeOutput(proc, { passthrough: true });
+        await output.done;
+        exitCode = await proc.exited;
+    }
 
-    if (proc.exitCode !== 0) {
+    if (exitCode !== 0) {
         console.error(
             boxen("❌ shadcn command failed", {
                 padding: 1,
@@ -297,7 +299,7 @@ export async function scnCommand(args: string[]) {
                 borderColor: "red",
             })
         );
-        process.exit(proc.exitCode ?? 1);
+        process.exit(exitCode);
     }
 
     // Post-process: Fix imports in generated files
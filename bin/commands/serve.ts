@@ -0,0 +1,175 @@
+import boxen from "boxen";
+import { existsSync } from "fs";
+import { join } from "path";
+import { findPortOwner, isPortFree } from "../utils/port.ts";
+import { runPrimate } from "../utils/primate.ts";
+import { detectPort } from "../utils/project.ts";
+import { waitForReady } from "../utils/ready.ts";
+import { runWithRecovery } from "../utils/recovery.ts";
+import { setOutcome } from "../utils/report.ts";
+import { buildRules, loadRules } from "../utils/rules.ts";
+import { BUILD_DIR, buildProject } from "./build.ts";
+import { preflight, startSession } from "./run.ts";
+
+// Exit codes px serve uses, so CI can tell failures apart.
+// Ctrl-C and SIGTERM exit with 130 and 143 as usual.
+export const SERVE_EXIT_CODES = {
+    // The server shut down cleanly
+    stopped: 0,
+    // The server crashed with an error px couldn't fix
+    failed: 1,
+    // No build to serve (run px build, or pass --build)
+    noBuild: 2,
+    // The server didn't answer within --ready-timeout
+    notReady: 3,
+    // Something else is listening on the port
+    portInUse: 4,
+    // Fixes were applied MAX_ATTEMPTS times and the server still failed
+    maxAttempts: 5,
+} as const;
+
+export interface ServeOptions {
+    runtime?: string;
+    report?: string;
+    yes?: boolean;
+    readyTimeout?: string;
+    // Build before serving
+    build?: boolean;
+}
+
+// Draw a red box and exit with one of SERVE_EXIT_CODES
+function fail(message: string, code: number): never {
+    console.error(
+        boxen(message, {
+            padding: 1,
+            margin: 1,
+            borderStyle: "round",
+            borderColor: "red",
+        })
+    );
+    process.exit(code);
+}
+
+export async function serveCommand(args: string[], options: ServeOptions = {}) {
+    const { projectRoot, manager, runner } = startSession("serve", args, options);
+    const install = { yes: options.yes };
+
+    let readyTimeoutMs: number | undefined;
+    if (options.readyTimeout) {
+        const seconds = Number(options.readyTimeout);
+        if (!(seconds > 0)) {
+            console.error(`❌ Invalid ready timeout: ${options.readyTimeout}`);
+            process.exit(SERVE_EXIT_CODES.failed);
+        }
+        readyTimeoutMs = seconds * 1000;
+    }
+
+    if (options.build) {
+        await preflight(projectRoot, manager, install);
+        const { outcome } = await buildProject(
+            projectRoot,
+            manager,
+            runner,
+            [],
+            install
+        );
+        if (outcome !== "success") {
+            fail("❌ Build failed, not serving", SERVE_EXIT_CODES.failed);
+        }
+    } else if (!existsSync(join(projectRoot, BUILD_DIR))) {
+        setOutcome("failed");
+        fail(
+            `❌ No ${BUILD_DIR}/ directory in ${projectRoot}\n\nRun \`px build\` first, or \`px serve --build\`.`,
+            SERVE_EXIT_CODES.noBuild
+        );
+    }
+
+    // Nobody is there to pick another port in CI - fail with a clear code instead
+    const port = detectPort(projectRoot);
+    if (!(await isPortFree(port))) {
+        const owner = await findPortOwner(port);
+        setOutcome("failed");
+        fail(
+            `🔌 Port ${port} is already in use${
+                owner ? ` by ${owner.command} (pid ${owner.pid})` : ""
+            }`,
+            SERVE_EXIT_CODES.portInUse
+        );
+    }
+
+    const url = `http://localhost:${port}`;
+
+    const { outcome, result } = await runWithRecovery({
+        projectRoot,
+        manager,
+        rules: loadRules(projectRoot, buildRules).filter(
+            (rule) => rule.name !== "port-in-use"
+        ),
+        install,
+        async launch(attempt, stopPatterns) {
+            console.log(
+                boxen(
+                    `🚀 Serving ${BUILD_DIR}/ on port ${port}${attempt > 1 ? ` (Attempt ${attempt})` : ""}`,
+                    {
+                        padding: 1,
+                        margin: 1,
+                        borderStyle: "round",
+                        borderColor: "cyan",
+                    }
+                )
+            );
+
+            // Poll the server in parallel, and stop it if it never answers
+            const controller = new AbortController();
+            let timedOut = false;
+            const readiness = waitForReady(url, {
+                timeoutMs: readyTimeoutMs,
+                signal: controller.signal,
+            }).then((readyMs) => {
+                if (readyMs !== null) {
+                    console.log(
+                        `✅ Serving at ${url} (ready in ${(readyMs / 1000).toFixed(2)}s)`
+                    );
+                } else if (!controller.signal.aborted) {
+                    timedOut = true;
+                    controller.abort();
+                }
+                return readyMs;
+            });
+
+            const primate = await runPrimate(projectRoot, ["serve", ...args], {
+                runner,
+                stopPatterns,
+                signal: controller.signal,
+            });
+
+            controller.abort();
+            const readyMs = await readiness;
+            return { ...primate, port, readyMs, timedOut };
+        },
+    });
+
+    switch (outcome) {
+        case "success":
+            process.exit(SERVE_EXIT_CODES.stopped);
+        case "not-ready":
+            fail(
+                `⏱️  The server did not respond on port ${port} within ${
+                    (readyTimeoutMs ?? 0) / 1000
+                }s`,
+                SERVE_EXIT_CODES.notReady
+            );
+        case "max-attempts":
+            process.exit(SERVE_EXIT_CODES.maxAttempts);
+        default:
+            // Lost a race for the port after the check above
+            if (
+                /EADDRINUSE|address already in use/i.test(
+                    result.stdout + "\n" + result.stderr
+                )
+            ) {
+                fail(`🔌 Port ${port} is already in use`, SERVE_EXIT_CODES.portInUse);
+            }
+            process.exit(SERVE_EXIT_CODES.failed);
+    }
+}
@@ -0,0 +1,72 @@
+import boxen from "boxen";
+import { unlinkSync } from "fs";
+import { detectManager, findProjectRoot } from "../utils/project.ts";
+import { changedSince, readHistory, revertEntry } from "../utils/transaction.ts";
+
+export interface UndoOptions {
+    // Revert even files that were edited after the add
+    force?: boolean;
+}
+
+// Revert the files changed by the last completed px add or px remove
+export async function undoCommand(options: UndoOptions = {}) {
+    const projectRoot = findProjectRoot(process.cwd());
+    const last = readHistory(projectRoot).pop();
+
+    if (!last) {
+        console.log("ℹ️  Nothing to undo");
+        return;
+    }
+    const { file, entry } = last;
+
+    const changed = changedSince(projectRoot, entry);
+    if (changed.length > 0 && !options.force) {
+        console.error(
+            boxen(
+                `❌ Files changed since px ${entry.label}:\n\n${changed
+                    .map((path) => `   ${path}`)
+                    .join("\n")}\n\nUndoing would throw those changes away.\nRun \`px undo --force\` to revert anyway.`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+
+    const { kept, ignored } = revertEntry(projectRoot, entry);
+    unlinkSync(file);
+
+    const sync = entry.files.some(({ path }) => path.endsWith("package.json"))
+        ? `\n\nRun \`${detectManager(projectRoot)} install\` to sync node_modules.`
+        : "";
+    const secrets =
+        kept.length > 0
+            ? `\n\n⚠️  ${kept.join(", ")} ${kept.length === 1 ? "was" : "were"} left in place, with what px ${entry.label} wrote.\n   Remove what you don't need by hand.${
+                  ignored.length > 0
+                      ? `\n   .gitignore still covers ${ignored.join(", ")}, so ${ignored.length === 1 ? "it" : "they"} can't be committed.`
+                      : ""
+              }`
+            : "";
+
+    console.log(
+        boxen(
+            `↩️  Undid px ${entry.label} (${new Date(entry.finishedAt).toLocaleString()})\n\n${entry.files
+                .map(({ path, before, secret }) =>
+                    secret
+                        ? `   left ${path} in place (it may hold secrets)`
+                        : `   ${before === null ? "removed" : "restored"} ${path}`
+                )
+                .join("\n")}${sync}${secrets}`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: kept.length > 0 ? "yellow" : "green",
+            }
+        )
+    );
+}
@@ -1,39 +1,140 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import { runCommand } from "./commands/run.ts";
+import { buildCommand } from "./commands/build.ts";
+import { serveCommand } from "./commands/serve.ts";
 import { addCommand } from "./commands/add.ts";
+import { removeCommand } from "./commands/remove.ts";
 import { scnCommand } from "./commands/scn.ts";
+import { pmSwitchCommand } from "./commands/pm.ts";
+import { doctorCommand } from "./commands/doctor.ts";
+import { undoCommand } from "./commands/undo.ts";
+import { setPromptOptions } from "./utils/prompt.ts";
 
 const program = new Command();
 
 program
   .name("px")
   .description("Primate CLI wrapper with auto-install and utilities")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option("-y, --yes", "Never ask: take the default answers, and install packages outside the allowlist")
+  .option("--non-interactive", "Never ask: fail, naming the flags to pass, when px needs an answer")
+  .hook("preAction", (_program, command) => {
+    setPromptOptions(command.optsWithGlobals());
+  });
 
 program
   .command("run")
   .description("Run Primate with automatic package installation")
+  .option("--port <port>", "Run on this port instead of the one in config/app.ts")
+  .option("--watch", "Restart Primate on config changes and after crashes")
+  .option("--runtime <runtime>", "Runtime to launch Primate under (bun or node)")
+  .option("--report <format>", "Print a summary of the session when it ends (json)")
+  .option("--open", "Open the browser once Primate is ready")
+  .option("--ready-timeout <seconds>", "Fail if Primate isn't ready within this many seconds")
+  .option("--port-conflict <action>", "Settle a taken port without asking: kill, next or abort")
+  .option("--dry-run", "List what would be installed without installing anything")
+  .option("--types", "Type-check and install missing @types packages")
+  .option("--types-registry", "With --types, ask the registry about @types packages not in a local cache")
+  .option("--grep <pattern>", "Only show output lines matching this pattern")
+  .option("--hide-hmr", "Hide hot reload messages")
+  .option("--timestamps", "Prefix output lines with the time")
+  .option("--prefix", "Prefix output lines with [stdout] or [stderr]")
+  .allowUnknownOption()
+  .argument("[args...]", "Arguments passed through to Primate")
+  .action(async (args: string[], _options, command) => {
+    await runCommand(args, command.optsWithGlobals());
+  });
+
+program
+  .command("build")
+  .description("Build the app for production, installing missing packages")
+  .option("--runtime <runtime>", "Runtime to launch Primate under (bun or node)")
+  .option("--report <format>", "Print a summary of the session when it ends (json)")
+  .option("--dry-run", "List what would be installed without installing anything")
+  .option("--no-summary", "Don't print the build size summary")
   .allowUnknownOption()
-  .action(async () => {
-    const args = process.argv.slice(3);
-    await runCommand(args);
+  .argument("[args...]", "Arguments passed through to primate build")
+  .action(async (args: string[], _options, command) => {
+    await buildCommand(args, command.optsWithGlobals());
   });
 
 program
-  .command("add <module>")
+  .command("serve")
+  .description("Serve the production build, with exit codes for CI")
+  .option("--build", "Build before serving")
+  .option("--runtime <runtime>", "Runtime to launch Primate under (bun or node)")
+  .option("--report <format>", "Print a summary of the session when it ends (json)")
+  .option("--ready-timeout <seconds>", "Fail if the server isn't ready within this many seconds")
+  .allowUnknownOption()
+  .argument("[args...]", "Arguments passed through to primate serve")
+  .action(async (args: string[], _options, command) => {
+    await serveCommand(args, command.optsWithGlobals());
+  });
+
+program
+  .command("add [modules...]")
   .description("Add and configure modules (e.g., tailwind, shadcn)")
-  .action(async (module: string) => {
-    await addCommand(module);
+  .option("--list", "List the available modules, including third-party ones")
+  .option("--dry-run", "Print the changes and install commands without applying them")
+  .option("-i, --interactive", "Show each file change and ask before applying it")
+  .option("--framework <framework>", "shadcn: react or svelte, when config/app.ts has both")
+  .option("--unit", "test: set up Vitest unit tests")
+  .option("--e2e", "test: set up Playwright end-to-end tests")
+  .option("--driver <driver>", "store: sqlite, postgresql, mysql, mongodb, surrealdb or in-memory")
+  .action(async (modules: string[], options) => {
+    await addCommand(modules, options);
+  });
+
+program
+  .command("remove <module>")
+  .description("Remove a module added with px add")
+  .option("--force", "Also delete generated files edited since")
+  .action(async (module: string, options) => {
+    await removeCommand(module, options);
+  });
+
+program
+  .command("undo")
+  .description("Revert the files changed by the last px add")
+  .option("--force", "Revert even files edited since")
+  .action(async (options) => {
+    await undoCommand(options);
   });
 
 program
   .command("scn [args...]")
   .description("Add shadcn components (proxy for shadcn CLI)")
   .allowUnknownOption()
-  .action(async (args: string[]) => {
-    await scnCommand(args || []);
+  .action(async (args: string[], _options, command) => {
+    // -y is px's own flag now; shadcn's means the same, so pass it on
+    const { yes } = command.optsWithGlobals();
+    await scnCommand([...(args || []), ...(yes ? ["--yes"] : [])]);
+  });
+
+program
+  .command("doctor")
+  .description("Check the project's health and suggest fixes")
+  .option("--fix", "Run the px add modules that fix what was found")
+  .option("--json", "Print the results as JSON")
+  .action(async (options) => {
+    await doctorCommand(options);
+  });
+
+const pm = program
+  .command("pm")
+  .description("Manage the project's package manager");
+
+pm
+  .command("switch <manager>")
+  .description("Migrate to another package manager (bun, pnpm, yarn or npm)")
+  .action(async (manager: string) => {
+    await pmSwitchCommand(manager);
   });
 
-program.parse(process.argv);
+// Errors thrown by commands (e.g. a failed install) end px with exit code 1
+program.parseAsync(process.argv).catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
 
@@ -0,0 +1,653 @@
+import { join } from "path";
+import ts from "typescript";
+import { readProjectFile, writeProjectFile } from "./changes.ts";
+
+// Where Primate reads its configuration, relative to the project root
+export const APP_CONFIG_FILE = join("config", "app.ts");
+
+// What a missing config/app.ts starts out as before modules are added
+export const EMPTY_CONFIG = `import config from "primate/config";
+
+export default config({
+});
+`;
+
+// A module called in the modules array of config/app.ts
+export interface ConfiguredModule {
+    // Package it's imported from ("@primate/react")
+    source: string;
+    // Name it's imported and called as ("react")
+    name: string;
+    // Source text of the call's arguments ("{ extensions: [\".jsx\"] }"), "" if none
+    options: string;
+}
+
+// config/app.ts, parsed. Edits update text and the syntax tree in memory;
+// nothing is written until writeAppConfig.
+export interface AppConfig {
+    projectRoot: string;
+    path: string;
+    exists: boolean;
+    // Text as last read or written, to tell whether edits changed anything
+    original: string;
+    text: string;
+    sourceFile: ts.SourceFile;
+}
+
+// "unsupported" means the file isn't shaped like a Primate config we can edit,
+// e.g. the default export is built by a function call px can't see into
+export type EditResult = "changed" | "unchanged" | "unsupported";
+
+// Parse TypeScript source, keeping parent links for getStart() and getText()
+function parse(path: string, text: string): ts.SourceFile {
+    return ts.createSourceFile(
+        path,
+        text,
+        ts.ScriptTarget.Latest,
+        true,
+        ts.ScriptKind.TS
+    );
+}
+
+// Read and parse config/app.ts; a missing file reads as empty
+export function readAppConfig(projectRoot: string): AppConfig {
+    const path = join(projectRoot, APP_CONFIG_FILE);
+    const content = readProjectFile(path);
+    const exists = content !== null;
+    const text = content ?? "";
+
+    return {
+        projectRoot,
+        path,
+        exists,
+        original: text,
+        text,
+        sourceFile: parse(path, text),
+    };
+}
+
+// Write config/app.ts if edits changed it. Returns whether it was written
+// (not when px add --dry-run previewed it, or --interactive declined it).
+export async function writeAppConfig(config: AppConfig): Promise<boolean> {
+    if (config.text === config.original && (config.exists || config.text === "")) {
+        return false;
+    }
+
+    if (!(await writeProjectFile(config.projectRoot, config.path, config.text))) {
+        return false;
+    }
+    config.original = config.text;
+    config.exists = true;
+    return true;
+}
+
+// Replace a range of the text and parse it again. Everything outside the
+// range stays byte for byte as the user wrote it.
+function splice(
+    config: AppConfig,
+    start: number,
+    end: number,
+    insert: string
+): void {
+    config.text = config.text.slice(0, start) + insert + config.text.slice(end);
+    config.sourceFile = parse(config.path, config.text);
+}
+
+// Look through `as`, `satisfies` and parentheses
+function unwrap(node: ts.Expression): ts.Expression {
+    while (
+        ts.isAsExpression(node) ||
+        ts.isSatisfiesExpression(node) ||
+        ts.isParenthesizedExpression(node) ||
+        ts.isTypeAssertionExpression(node)
+    ) {
+        node = node.expression;
+    }
+    return node;
+}
+
+// Initializer of a top-level `const name = ...`
+function variableInitializer(
+    sourceFile: ts.SourceFile,
+    name: string
+): ts.Expression | undefined {
+    for (const statement of sourceFile.statements) {
+        if (!ts.isVariableStatement(statement)) continue;
+        for (const declaration of statement.declarationList.declarations) {
+            if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+                return declaration.initializer;
+            }
+        }
+    }
+    return undefined;
+}
+
+// The object literal Primate gets from the default export:
+// `export default config({...})`, `export default {...}`, or either one
+// through a variable
+function configObject(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | null {
+    for (const statement of sourceFile.statements) {
+        if (!ts.isExportAssignment(statement) || statement.isExportEquals) continue;
+
+        let expression: ts.Expression | undefined = unwrap(statement.expression);
+        if (ts.isIdentifier(expression)) {
+            expression = variableInitializer(sourceFile, expression.text);
+            if (!expression) return null;
+            expression = unwrap(expression);
+        }
+        if (ts.isCallExpression(expression) && expression.arguments[0]) {
+            expression = unwrap(expression.arguments[0]);
+        }
+        return ts.isObjectLiteralExpression(expression) ? expression : null;
+    }
+    return null;
+}
+
+// A `name: value` property of an object literal
+function findProperty(
+    object: ts.ObjectLiteralExpression,
+    name: string
+): ts.PropertyAssignment | undefined {
+    return object.properties.find(
+        (property): property is ts.PropertyAssignment =>
+            ts.isPropertyAssignment(property) &&
+            (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+            property.name.text === name
+    );
+}
+
+// The modules array, null if there is none, or undefined if modules isn't an array literal
+function modulesArray(
+    object: ts.ObjectLiteralExpression
+): ts.ArrayLiteralExpression | null | undefined {
+    const property = findProperty(object, "modules");
+    if (!property) return null;
+    const initializer = unwrap(property.initializer);
+    return ts.isArrayLiteralExpression(initializer) ? initializer : undefined;
+}
+
+// Local names bound by default and named imports, mapped to their package
+function importedNames(sourceFile: ts.SourceFile): Map<string, string> {
+    const names = new Map<string, string>();
+
+    for (const statement of sourceFile.statements) {
+        if (
+            !ts.isImportDeclaration(statement) ||
+            !ts.isStringLiteral(statement.moduleSpecifier) ||
+            !statement.importClause
+        ) {
+            continue;
+        }
+        const source = statement.moduleSpecifier.text;
+        const { name, namedBindings } = statement.importClause;
+        if (name) {
+            names.set(name.text, source);
+        }
+        if (namedBindings && ts.isNamedImports(namedBindings)) {
+            for (const element of namedBindings.elements) {
+                names.set(element.name.text, source);
+            }
+        }
+    }
+
+    return names;
+}
+
+// Package a modules array element is imported from, if it's a call to an import
+function elementSource(
+    element: ts.Expression,
+    imports: Map<string, string>
+): string | null {
+    const node = unwrap(element);
+    if (!ts.isCallExpression(node) || !ts.isIdentifier(node.expression)) {
+        return null;
+    }
+    return imports.get(node.expression.text) ?? null;
+}
+
+// Read the modules configured in config/app.ts, in order
+export function configuredModules(config: AppConfig): ConfiguredModule[] {
+    const object = configObject(config.sourceFile);
+    const array = object && modulesArray(object);
+    if (!array) return [];
+
+    const imports = importedNames(config.sourceFile);
+    const modules: ConfiguredModule[] = [];
+
+    for (const element of array.elements) {
+        const source = elementSource(element, imports);
+        if (source === null) continue;
+        const call = unwrap(element) as ts.CallExpression;
+        modules.push({
+            source,
+            name: (call.expression as ts.Identifier).text,
+            options: call.arguments.map((argument) => argument.getText()).join(", "),
+        });
+    }
+
+    return modules;
+}
+
+// Check whether a package's module is in the modules array
+export function hasModule(config: AppConfig, source: string): boolean {
+    return configuredModules(config).some((module) => module.source === source);
+}
+
+// Value of a literal expression, or undefined if it isn't one
+function literalValue(node: ts.Expression): unknown {
+    node = unwrap(node);
+
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (ts.isStringLiteralLike(node)) return node.text;
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+    if (
+        ts.isPrefixUnaryExpression(node) &&
+        node.operator === ts.SyntaxKind.MinusToken &&
+        ts.isNumericLiteral(node.operand)
+    ) {
+        return -Number(node.operand.text);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+        return node.elements.map(literalValue);
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+        const object: Record<string, unknown> = {};
+        for (const property of node.properties) {
+            if (
+                ts.isPropertyAssignment(property) &&
+                (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+            ) {
+                object[property.name.text] = literalValue(property.initializer);
+            }
+        }
+        return object;
+    }
+    return undefined;
+}
+
+// Read an option by its dotted path ("http.port"). Undefined if it isn't set
+// or isn't a literal px can evaluate.
+export function readOption(config: AppConfig, path: string): unknown {
+    let object = configObject(config.sourceFile);
+    const keys = path.split(".");
+
+    for (const [index, key] of keys.entries()) {
+        const property = object && findProperty(object, key);
+        if (!property) return undefined;
+        if (index === keys.length - 1) {
+            return literalValue(property.initializer);
+        }
+        const value = unwrap(property.initializer);
+        object = ts.isObjectLiteralExpression(value) ? value : null;
+    }
+    return undefined;
+}
+
+// The port set in http.port, or null if there is none
+export function configuredPort(config: AppConfig): number | null {
+    const port = readOption(config, "http.port");
+    return typeof port === "number" ? port : null;
+}
+
+// Line number of a position
+function lineOf(config: AppConfig, position: number): number {
+    return config.sourceFile.getLineAndCharacterOfPosition(position).line;
+}
+
+// Leading whitespace of the line a position is on
+function indentAt(text: string, position: number): string {
+    const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+    return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+// Quote and semicolon style of the file's existing imports
+function importStyle(sourceFile: ts.SourceFile): {
+    quote: string;
+    semicolon: string;
+} {
+    const first = sourceFile.statements.find(ts.isImportDeclaration);
+    if (!first) {
+        return { quote: '"', semicolon: ";" };
+    }
+    return {
+        quote: first.moduleSpecifier.getText().startsWith("'") ? "'" : '"',
+        semicolon: first.getText().endsWith(";") ? ";" : "",
+    };
+}
+
+// Every identifier in the file
+function identifiers(node: ts.Node, found: Set<string> = new Set()): Set<string> {
+    if (ts.isIdentifier(node)) {
+        found.add(node.text);
+    }
+    ts.forEachChild(node, (child) => {
+        identifiers(child, found);
+    });
+    return found;
+}
+
+// A name for a package's default import that doesn't clash with the file
+// ("@primate/tailwind" -> "tailwind", "primate-auth" -> "primateAuth")
+function importName(sourceFile: ts.SourceFile, source: string): string {
+    const base =
+        source
+            .split("/")
+            .pop()!
+            .replace(/[^\w$]+(\w)/g, (_, letter: string) => letter.toUpperCase())
+            .replace(/^[^A-Za-z_$]+/, "") || "module";
+
+    const taken = identifiers(sourceFile);
+    if (!taken.has(base)) return base;
+    for (let suffix = 2; ; suffix++) {
+        if (!taken.has(`${base}${suffix}`)) return `${base}${suffix}`;
+    }
+}
+
+// Default-import a package unless it already is, and return the local name
+function ensureImport(config: AppConfig, source: string): string {
+    const { sourceFile } = config;
+    const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+
+    for (const declaration of imports) {
+        const name = declaration.importClause?.name;
+        if (
+            name &&
+            ts.isStringLiteral(declaration.moduleSpecifier) &&
+            declaration.moduleSpecifier.text === source
+        ) {
+            return name.text;
+        }
+    }
+
+    const name = importName(sourceFile, source);
+    const { quote, semicolon } = importStyle(sourceFile);
+    const line = `import ${name} from ${quote}${source}${quote}${semicolon}`;
+
+    const last = imports[imports.length - 1];
+    if (last) {
+        splice(config, last.getEnd(), last.getEnd(), `\n${line}`);
+    } else {
+        const start = sourceFile.statements[0]?.getStart() ?? 0;
+        splice(config, start, start, `${line}\n\n`);
+    }
+    return name;
+}
+
+// Append an element to an array literal, following its layout
+function insertElement(
+    config: AppConfig,
+    array: ts.ArrayLiteralExpression,
+    element: string
+): void {
+    const last = array.elements[array.elements.length - 1];
+    if (!last) {
+        splice(config, array.getStart() + 1, array.getEnd() - 1, element);
+        return;
+    }
+
+    const multiline =
+        lineOf(config, array.getStart()) !== lineOf(config, last.getStart());
+    const afterComma = array.elements.hasTrailingComma
+        ? config.text.indexOf(",", last.getEnd()) + 1
+        : null;
+
+    if (multiline) {
+        const indent = indentAt(config.text, last.getStart());
+        if (afterComma !== null) {
+            splice(config, afterComma, afterComma, `\n${indent}${element},`);
+        } else {
+            splice(config, last.getEnd(), last.getEnd(), `,\n${indent}${element}`);
+        }
+    } else if (afterComma !== null) {
+        splice(config, afterComma, afterComma, ` ${element},`);
+    } else {
+        splice(config, last.getEnd(), last.getEnd(), `, ${element}`);
+    }
+}
+
+// Add a property to the front of an object literal, following its layout
+function insertProperty(
+    config: AppConfig,
+    object: ts.ObjectLiteralExpression,
+    property: string
+): void {
+    const first = object.properties[0];
+
+    if (!first) {
+        const indent = indentAt(config.text, object.getStart());
+        splice(
+            config,
+            object.getStart() + 1,
+            object.getEnd() - 1,
+            `\n${indent}    ${property},\n${indent}`
+        );
+    } else if (lineOf(config, object.getStart()) !== lineOf(config, first.getStart())) {
+        const indent = indentAt(config.text, first.getStart());
+        splice(config, first.getStart(), first.getStart(), `${property},\n${indent}`);
+    } else {
+        splice(config, first.getStart(), first.getStart(), `${property}, `);
+    }
+}
+
+// Add a module to config/app.ts: import it and call it in the modules array,
+// with options as source text ("{ extensions: [\".md\"] }"). Does nothing if the
+// package's module is already there, and creates the file if it's missing.
+export function addModule(
+    config: AppConfig,
+    source: string,
+    options: string = ""
+): EditResult {
+    if (config.text.trim() === "") {
+        splice(config, 0, config.text.length, EMPTY_CONFIG);
+    }
+    if (hasModule(config, source)) {
+        return "unchanged";
+    }
+
+    // Check the shape before touching anything
+    const object = configObject(config.sourceFile);
+    if (!object || modulesArray(object) === undefined) {
+        return "unsupported";
+    }
+
+    const name = ensureImport(config, source);
+    const call = `${name}(${options})`;
+
+    // Positions moved with the new import, so look again
+    const updated = configObject(config.sourceFile)!;
+    const array = modulesArray(updated);
+    if (array) {
+        insertElement(config, array, call);
+    } else {
+        insertProperty(config, updated, `modules: [${call}]`);
+    }
+    return "changed";
+}
+
+// Remove one element from an array or object literal, with its comma and, if
+// it had a line to itself, the whole line
+function removeElement(
+    config: AppConfig,
+    elements: ts.NodeArray<ts.Node>,
+    index: number
+): void {
+    const { text } = config;
+    const element = elements[index]!;
+    let start = element.getStart();
+    let end = element.getEnd();
+
+    const comma = text.slice(end).match(/^\s*,/);
+    if (comma) {
+        end += comma[0].length;
+    } else if (index > 0) {
+        // Last element: take the comma before it instead
+        start = elements[index - 1]!.getEnd();
+    }
+
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = text.indexOf("\n", end);
+    const restOfLine = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+
+    if (text.slice(lineStart, start).trim() === "" && restOfLine.trim() === "") {
+        start = lineStart;
+        end = lineEnd === -1 ? text.length : lineEnd + 1;
+    } else if (comma) {
+        end += restOfLine.match(/^[ \t]*/)![0].length;
+    }
+
+    splice(config, start, end, "");
+}
+
+// Check whether a name is used anywhere outside the given node
+function isReferenced(node: ts.Node, name: string, except: ts.Node): boolean {
+    if (node === except) return false;
+    if (ts.isIdentifier(node) && node.text === name) return true;
+    return (
+        ts.forEachChild(
+            node,
+            (child) => isReferenced(child, name, except) || undefined
+        ) ?? false
+    );
+}
+
+// Drop a default import that nothing uses any more
+function removeUnusedImport(config: AppConfig, source: string, name: string): void {
+    const declaration = config.sourceFile.statements.find(
+        (statement): statement is ts.ImportDeclaration =>
+            ts.isImportDeclaration(statement) &&
+            ts.isStringLiteral(statement.moduleSpecifier) &&
+            statement.moduleSpecifier.text === source &&
+            statement.importClause?.name?.text === name
+    );
+    if (!declaration || isReferenced(config.sourceFile, name, declaration)) {
+        return;
+    }
+
+    const clause = declaration.importClause!;
+    if (clause.namedBindings) {
+        // `import x, { y } from` -> `import { y } from`
+        splice(config, clause.name!.getStart(), clause.namedBindings.getStart(), "");
+        return;
+    }
+
+    const { text } = config;
+    const start = text.lastIndexOf("\n", declaration.getStart() - 1) + 1;
+    const lineEnd = text.indexOf("\n", declaration.getEnd());
+    splice(config, start, lineEnd === -1 ? text.length : lineEnd + 1, "");
+}
+
+// Remove a package's module from the modules array, and its import if nothing
+// else uses it
+export function removeModule(config: AppConfig, source: string): EditResult {
+    const names = new Set<string>();
+
+    while (true) {
+        const object = configObject(config.sourceFile);
+        const array = object && modulesArray(object);
+        if (!array) break;
+
+        const imports = importedNames(config.sourceFile);
+        const index = array.elements.findIndex(
+            (element) => elementSource(element, imports) === source
+        );
+        if (index === -1) break;
+
+        const call = unwrap(array.elements[index]!) as ts.CallExpression;
+        names.add((call.expression as ts.Identifier).text);
+        removeElement(config, array.elements, index);
+    }
+
+    if (names.size === 0) {
+        return "unchanged";
+    }
+    for (const name of names) {
+        removeUnusedImport(config, source, name);
+    }
+    return "changed";
+}
+
+// The comment px run --port leaves after a port it set, saying what to put
+// back: the port's original source text, or that px added the property
+const PORT_OVERRIDE = /^\s*\/\* px run --port, (?:was: (.*?)|(added http|added)) \*\//;
+
+// The http object and its port property, as far as they exist
+function portProperty(config: AppConfig): {
+    object: ts.ObjectLiteralExpression | null;
+    http?: ts.PropertyAssignment;
+    httpObject?: ts.ObjectLiteralExpression;
+    port?: ts.PropertyAssignment;
+} {
+    const object = configObject(config.sourceFile);
+    const http = object ? findProperty(object, "http") : undefined;
+    const value = http && unwrap(http.initializer);
+    const httpObject = value && ts.isObjectLiteralExpression(value) ? value : undefined;
+    const port = httpObject && findProperty(httpObject, "port");
+    return { object, http, httpObject, port };
+}
+
+// Set http.port for one px run, marking it so restorePort (or the next px run,
+// after a crash) can put the original back. Creates the file if it's missing.
+export function overridePort(config: AppConfig, port: number): EditResult {
+    restorePort(config);
+    if (config.text.trim() === "") {
+        splice(config, 0, config.text.length, EMPTY_CONFIG);
+    }
+
+    const { object, http, httpObject, port: current } = portProperty(config);
+    if (!object) {
+        return "unsupported";
+    }
+    if (!http) {
+        insertProperty(config, object, `http: { port: ${port} /* px run --port, added http */ }`);
+        return "changed";
+    }
+    if (!httpObject) {
+        return "unsupported";
+    }
+    if (!current) {
+        insertProperty(config, httpObject, `port: ${port} /* px run --port, added */`);
+        return "changed";
+    }
+
+    // The original goes into the comment, so it has to fit in one
+    const original = current.initializer.getText();
+    if (original.includes("*/") || original.includes("\n")) {
+        return "unsupported";
+    }
+    splice(
+        config,
+        current.initializer.getStart(),
+        current.initializer.getEnd(),
+        `${port} /* px run --port, was: ${original} */`
+    );
+    return "changed";
+}
+
+// Undo overridePort: put back the original port, or remove the property (and
+// the http object) px added. Other edits to the file are kept.
+export function restorePort(config: AppConfig): EditResult {
+    const { port } = portProperty(config);
+    const end = port?.initializer.getEnd() ?? 0;
+    const marker = port && config.text.slice(end).match(PORT_OVERRIDE);
+    if (!port || !marker) {
+        return "unchanged";
+    }
+
+    const [comment, original, added] = marker;
+    if (original !== undefined) {
+        splice(config, port.initializer.getStart(), end + comment.length, original);
+        return "changed";
+    }
+
+    // Drop the comment first, so the property's comma follows it directly
+    splice(config, end, end + comment.length, "");
+    const { object, http, httpObject, port: property } = portProperty(config);
+    if (added === "added http" && httpObject!.properties.length === 1) {
+        removeElement(config, object!.properties, object!.properties.indexOf(http!));
+    } else {
+        removeElement(config, httpObject!.properties, httpObject!.properties.indexOf(property!));
+    }
+    return "changed";
+}
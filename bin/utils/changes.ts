@@ -0,0 +1,177 @@
+import { confirm } from "@inquirer/prompts";
+import boxen from "boxen";
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    rmdirSync,
+    unlinkSync,
+    writeFileSync,
+} from "fs";
+import { dirname, relative, resolve, sep } from "path";
+import { unifiedDiff } from "./diff.ts";
+import { trackChange } from "./transaction.ts";
+
+// How px add modules apply file changes:
+// - write: straight to disk
+// - dry-run: print a diff, keep the change in memory, write nothing
+// - interactive: print a diff and ask before writing each file
+export type ChangeMode = "write" | "dry-run" | "interactive";
+
+let mode: ChangeMode = "write";
+
+// Changes a dry run would have written, keyed by absolute path.
+// Later reads see them, so a module building on its own changes previews right.
+const staged = new Map<string, { file: string; before: string | null; after: string }>();
+
+// Install commands a dry run would have run
+const plannedCommands: string[][] = [];
+
+export function setChangeMode(next: ChangeMode): void {
+    mode = next;
+    staged.clear();
+    plannedCommands.length = 0;
+}
+
+export function changeMode(): ChangeMode {
+    return mode;
+}
+
+// Read a file, seeing changes staged by a dry run. Null if it doesn't exist.
+export function readProjectFile(path: string): string | null {
+    const change = staged.get(resolve(path));
+    if (change) return change.after;
+    return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+export function projectFileExists(path: string): boolean {
+    return readProjectFile(path) !== null;
+}
+
+// Write a file (creating its directory) according to the change mode.
+// Returns whether the file now has the content: false if it was only
+// previewed or the change was declined.
+export async function writeProjectFile(
+    projectRoot: string,
+    path: string,
+    content: string
+): Promise<boolean> {
+    const target = resolve(projectRoot, path);
+    const file = relative(projectRoot, target);
+    const before = readProjectFile(target);
+
+    if (before === content) {
+        return mode !== "dry-run";
+    }
+
+    if (mode === "dry-run") {
+        // A file created earlier in the dry run stays one to create
+        const original = staged.has(target) ? staged.get(target)!.before : before;
+        staged.set(target, { file, before: original, after: content });
+        console.log(`\n📝 Would ${before === null ? "create" : "modify"} ${file}`);
+        console.log(unifiedDiff(file, before, content));
+        return false;
+    }
+
+    if (mode === "interactive") {
+        console.log(`\n📝 ${before === null ? "Create" : "Modify"} ${file}`);
+        console.log(unifiedDiff(file, before, content));
+        const apply = await confirm({
+            message: `Apply this change to ${file}?`,
+            default: true,
+        });
+        if (!apply) {
+            console.log(`⏭️  Skipped ${file}`);
+            return false;
+        }
+    }
+
+    trackChange(target);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+    return true;
+}
+
+// Delete a file px generated, then the directories it leaves empty, up to the
+// project root. A file that matches none of the generated versions was edited
+// since, and is kept unless force is set.
+export function removeGeneratedFile(
+    projectRoot: string,
+    path: string,
+    generated: string[],
+    force: boolean
+): "removed" | "edited" | "missing" {
+    const target = resolve(projectRoot, path);
+    const content = readProjectFile(target);
+
+    if (content === null) return "missing";
+    if (!force && !generated.includes(content)) return "edited";
+
+    trackChange(target);
+    unlinkSync(target);
+    for (let dir = dirname(target); dir.startsWith(projectRoot + sep); dir = dirname(dir)) {
+        if (readdirSync(dir).length > 0) break;
+        rmdirSync(dir);
+    }
+    return "removed";
+}
+
+// Add entries to .gitignore (creating it) that it doesn't have yet.
+// Returns whether .gitignore has them all now.
+export async function updateGitignore(
+    projectRoot: string,
+    entries: string[]
+): Promise<boolean> {
+    const gitignorePath = resolve(projectRoot, ".gitignore");
+    const content = readProjectFile(gitignorePath) ?? "";
+
+    const lines = content.split("\n");
+    const entriesToAdd = entries.filter((entry) => !lines.includes(entry));
+
+    if (entriesToAdd.length === 0) {
+        return true;
+    }
+
+    const existing = content.trim() === "" ? "" : content.trim() + "\n";
+    const newContent = existing + entriesToAdd.join("\n") + "\n";
+    return writeProjectFile(projectRoot, gitignorePath, newContent);
+}
+
+// Note an install command a dry run skipped
+export function planCommand(command: string[]): void {
+    plannedCommands.push(command);
+    console.log(`📦 Would run: ${command.join(" ")}`);
+}
+
+// Sum up what a dry run would have done
+export function printDryRunSummary(label: string): void {
+    const changes = Array.from(staged.values());
+    const created = changes.filter(({ before }) => before === null);
+    const modified = changes.filter(({ before }) => before !== null);
+
+    const sections = [
+        created.length > 0 &&
+            `Would create:\n${created.map(({ file }) => `   ${file}`).join("\n")}`,
+        modified.length > 0 &&
+            `Would modify:\n${modified.map(({ file }) => `   ${file}`).join("\n")}`,
+        plannedCommands.length > 0 &&
+            `Would run:\n${plannedCommands
+                .map((command) => `   ${command.join(" ")}`)
+                .join("\n")}`,
+    ].filter(Boolean);
+
+    console.log(
+        boxen(
+            `🔍 Dry run of px ${label}\n\n${
+                sections.length > 0 ? sections.join("\n\n") : "Nothing to change"
+            }\n\nNothing was written or installed.`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "cyan",
+            }
+        )
+    );
+}
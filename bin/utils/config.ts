@@ -0,0 +1,166 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { jsonField } from "./json.ts";
+import { RUNTIMES, type Runtime } from "./runtime.ts";
+
+export const CONFIG_FILE = "px.config.json";
+
+// A project-defined px run rule, as written in px.config.json
+export interface RuleConfig {
+    name: string;
+    description?: string;
+    // Regular expression tested against Primate's output
+    match: string;
+    flags?: string;
+    // Remediations - "$1" etc. are replaced with capture groups from `match`
+    install?: string[];
+    dev?: boolean;
+    add?: string;
+    edit?: { file: string; search: string; replace: string; regex?: boolean };
+    hint?: string;
+}
+
+export interface PxConfig {
+    rules?: RuleConfig[];
+    // Runtime px run launches Primate under
+    runtime?: Runtime;
+    // Package name patterns ("@primate/*") px run may install without asking, or never
+    install?: { allow?: string[]; deny?: string[] };
+}
+
+// Load px.config.json from the project root, if present
+export function loadPxConfig(projectRoot: string): PxConfig {
+    const configPath = join(projectRoot, CONFIG_FILE);
+
+    if (!existsSync(configPath)) {
+        return {};
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(configPath, "utf-8"));
+    } catch (error) {
+        console.warn(
+            `⚠️  Could not parse ${CONFIG_FILE}: ${(error as Error).message}`
+        );
+        return {};
+    }
+
+    const config: PxConfig = {};
+
+    const rules = jsonField(raw, "rules");
+    if (rules !== undefined) {
+        if (Array.isArray(rules)) {
+            config.rules = rules.flatMap((rule, index) => {
+                const parsed = parseRule(rule);
+                if (parsed === null) {
+                    console.warn(
+                        `⚠️  Skipping rules[${index}] in ${CONFIG_FILE}: it needs a string "name" and "match", and fields of the documented types`
+                    );
+                    return [];
+                }
+                return [parsed];
+            });
+        } else {
+            console.warn(`⚠️  Ignoring "rules" in ${CONFIG_FILE}: it isn't a list`);
+        }
+    }
+
+    const runtime = jsonField(raw, "runtime");
+    if (runtime !== undefined) {
+        if (RUNTIMES.includes(runtime as Runtime)) {
+            config.runtime = runtime as Runtime;
+        } else {
+            console.warn(
+                `⚠️  Ignoring "runtime" in ${CONFIG_FILE}: expected ${RUNTIMES.join(" or ")}`
+            );
+        }
+    }
+
+    const install = jsonField(raw, "install");
+    if (install !== undefined) {
+        config.install = {
+            allow: stringList(jsonField(install, "allow"), "install.allow"),
+            deny: stringList(jsonField(install, "deny"), "install.deny"),
+        };
+    }
+
+    return config;
+}
+
+// The strings of a config list, warning about anything else in it
+function stringList(value: unknown, field: string): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const list = Array.isArray(value) ? value : [value];
+    const strings = list.filter((entry): entry is string => typeof entry === "string");
+    if (!Array.isArray(value) || strings.length !== list.length) {
+        console.warn(
+            `⚠️  ${field} in ${CONFIG_FILE} should be a list of strings; ignoring the rest`
+        );
+    }
+    return strings;
+}
+
+// A rule from px.config.json, null if a field has the wrong type
+function parseRule(value: unknown): RuleConfig | null {
+    const field = (key: string) => jsonField(value, key);
+    const optional = (key: string, type: "string" | "boolean") => {
+        const entry = field(key);
+        return entry === undefined || typeof entry === type;
+    };
+
+    const name = field("name");
+    const match = field("match");
+    if (typeof name !== "string" || typeof match !== "string") {
+        return null;
+    }
+    if (
+        !optional("description", "string") ||
+        !optional("flags", "string") ||
+        !optional("dev", "boolean") ||
+        !optional("add", "string") ||
+        !optional("hint", "string")
+    ) {
+        return null;
+    }
+
+    const install = field("install");
+    if (
+        install !== undefined &&
+        !(Array.isArray(install) && install.every((entry) => typeof entry === "string"))
+    ) {
+        return null;
+    }
+
+    const edit = field("edit");
+    let parsedEdit: RuleConfig["edit"];
+    if (edit !== undefined) {
+        const file = jsonField(edit, "file");
+        const search = jsonField(edit, "search");
+        const replace = jsonField(edit, "replace");
+        const regex = jsonField(edit, "regex");
+        if (
+            typeof file !== "string" ||
+            typeof search !== "string" ||
+            typeof replace !== "string" ||
+            (regex !== undefined && typeof regex !== "boolean")
+        ) {
+            return null;
+        }
+        parsedEdit = { file, search, replace, regex };
+    }
+
+    return {
+        name,
+        match,
+        description: field("description") as string | undefined,
+        flags: field("flags") as string | undefined,
+        install: install as string[] | undefined,
+        dev: field("dev") as boolean | undefined,
+        add: field("add") as string | undefined,
+        edit: parsedEdit,
+        hint: field("hint") as string | undefined,
+    };
+}
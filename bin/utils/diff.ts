@@ -0,0 +1,137 @@
+// Lines of context around each change, as in diff -u
+const CONTEXT = 3;
+
+type Edit = { type: " " | "-" | "+"; line: string };
+
+// Marks a last line without a newline, as diff -u does
+const NO_NEWLINE = "\n\\ No newline at end of file";
+
+// Split text into lines. A last line without a newline carries the marker,
+// so it differs from the same line with one.
+function splitLines(text: string): string[] {
+    if (text === "") return [];
+    const lines = text.split("\n");
+    if (lines[lines.length - 1] === "") {
+        lines.pop();
+    } else {
+        lines[lines.length - 1] += NO_NEWLINE;
+    }
+    return lines;
+}
+
+// Line edits turning before into after, from their longest common subsequence.
+// The common prefix and suffix are trimmed first, so small edits to large
+// files stay cheap.
+function diffLines(before: string[], after: string[]): Edit[] {
+    let start = 0;
+    while (
+        start < before.length &&
+        start < after.length &&
+        before[start] === after[start]
+    ) {
+        start++;
+    }
+
+    let end = 0;
+    while (
+        end < before.length - start &&
+        end < after.length - start &&
+        before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    const a = before.slice(start, before.length - end);
+    const b = after.slice(start, after.length - end);
+
+    // lengths[i * (b.length + 1) + j]: LCS length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * width + j] =
+                a[i] === b[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const edits: Edit[] = before
+        .slice(0, start)
+        .map((line): Edit => ({ type: " ", line }));
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            edits.push({ type: " ", line: a[i++] });
+            j++;
+        } else if (
+            j === b.length ||
+            (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+        ) {
+            edits.push({ type: "-", line: a[i++] });
+        } else {
+            edits.push({ type: "+", line: b[j++] });
+        }
+    }
+
+    for (const line of before.slice(before.length - end)) {
+        edits.push({ type: " ", line });
+    }
+    return edits;
+}
+
+// Unified diff of a file, null content meaning the file doesn't exist.
+// Returns an empty string if nothing changed.
+export function unifiedDiff(
+    path: string,
+    before: string | null,
+    after: string | null
+): string {
+    if (before === after) return "";
+
+    const edits = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+
+    // Group changes into hunks, merging those whose context overlaps
+    const hunks: [number, number][] = [];
+    edits.forEach((edit, index) => {
+        if (edit.type === " ") return;
+        const from = Math.max(0, index - CONTEXT);
+        const to = Math.min(edits.length, index + CONTEXT + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && from <= last[1]) {
+            last[1] = to;
+        } else {
+            hunks.push([from, to]);
+        }
+    });
+
+    const lines = [
+        `--- ${before === null ? "/dev/null" : `a/${path}`}`,
+        `+++ ${after === null ? "/dev/null" : `b/${path}`}`,
+    ];
+
+    // Line numbers where each hunk starts, counted through the edits before it
+    let oldLine = 1;
+    let newLine = 1;
+    let position = 0;
+    for (const [from, to] of hunks) {
+        for (; position < from; position++) {
+            if (edits[position].type !== "+") oldLine++;
+            if (edits[position].type !== "-") newLine++;
+        }
+
+        const hunk = edits.slice(from, to);
+        const oldCount = hunk.filter((edit) => edit.type !== "+").length;
+        const newCount = hunk.filter((edit) => edit.type !== "-").length;
+        lines.push(
+            `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${
+                newCount === 0 ? newLine - 1 : newLine
+            },${newCount} @@`
+        );
+        lines.push(...hunk.map((edit) => edit.type + edit.line));
+    }
+
+    return lines.join("\n") + "\n";
+}
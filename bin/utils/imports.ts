@@ -0,0 +1,261 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { dirname, extname, join, relative } from "path";
+import { jsonField, jsonKeys } from "./json.ts";
+import { loadAliases, resolveSpecifier } from "./resolve.ts";
+
+// Directories of a Primate app that contain importable sources
+export const SCAN_DIRS = ["routes", "views", "components", "lib", "config"];
+
+// Directories holding tests, and scripts that only run at development time
+export const TEST_DIRS = ["test", "tests", "__tests__", "e2e", "features"];
+export const TOOLING_DIRS = ["scripts", "tools"];
+
+// Root files that configure or set up tooling: vitest.config.js,
+// eslintrc.cjs, jest.setup.ts, global-setup.ts, ...
+const ROOT_CONFIG_FILES = /\.config\.[^.]+$|rc\.[^.]+$|(?:^|[.-])setup\.[^.]+$/;
+
+// What a file importing a package is for: runtime imports make a dependency,
+// imports only from the others make a devDependency
+export type ImportRole = "runtime" | "test" | "config" | "tooling";
+
+// File extensions the scanner reads
+export const SOURCE_EXTENSIONS = [
+    ".ts",
+    ".mts",
+    ".cts",
+    ".js",
+    ".mjs",
+    ".cjs",
+    ".jsx",
+    ".tsx",
+    ".svelte",
+    ".vue",
+];
+
+// Import forms we can find statically
+const IMPORT_PATTERNS = [
+    /\bimport\s+(?!type\b)(?:[^'"`;]*?\s+from\s+)?["']([^"']+)["']/g, // import x from "y" / import "y"
+    /\bexport\s+(?!type\b)[^'"`;]*?\s+from\s+["']([^"']+)["']/g, // export { x } from "y"
+    /\b(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)/g, // import("y") / require("y")
+];
+
+// Recursively list source files below a directory
+function listSourceFiles(dir: string): string[] {
+    const files: string[] = [];
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name === "node_modules" || entry.name.startsWith(".")) {
+            continue;
+        }
+
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...listSourceFiles(fullPath));
+        } else if (SOURCE_EXTENSIONS.includes(extname(entry.name))) {
+            files.push(fullPath);
+        }
+    }
+
+    return files;
+}
+
+// Reduce a file to the code we want to search for imports
+function extractCode(filePath: string, content: string): string {
+    // Svelte and Vue components only import from their <script> blocks
+    if (filePath.endsWith(".svelte") || filePath.endsWith(".vue")) {
+        const scripts = content.match(/<script\b[^>]*>[\s\S]*?<\/script>/g);
+        content = scripts ? scripts.join("\n") : "";
+    }
+
+    // Strip block comments and whole-line comments
+    return content.replace(/\/\*[\s\S]*?\*\//g, "").replace(/^\s*\/\/.*$/gm, "");
+}
+
+// Decide what a file is for from its path relative to the project root
+export function classifyImporter(file: string): ImportRole {
+    const segments = file.split(/[\\/]/);
+    const name = segments[segments.length - 1]!;
+
+    if (
+        /\.(?:test|spec)\.[^.]+$/.test(name) ||
+        /^(?:vitest-setup|setupTests)/.test(name) ||
+        segments.slice(0, -1).some((segment) => TEST_DIRS.includes(segment))
+    ) {
+        return "test";
+    }
+
+    // Any other root file (index.ts, server.ts, ...) may be an entry point
+    if (segments.length === 1 && ROOT_CONFIG_FILES.test(name)) {
+        return "config";
+    }
+
+    return TOOLING_DIRS.includes(segments[0]!) ? "tooling" : "runtime";
+}
+
+// Roles of the files importing a package. A package with no known importer is
+// treated as a runtime import.
+export function importRoles(importers: Iterable<string>): Set<ImportRole> {
+    const roles = new Set<ImportRole>();
+    for (const file of importers) {
+        roles.add(classifyImporter(file));
+    }
+    if (roles.size === 0) {
+        roles.add("runtime");
+    }
+    return roles;
+}
+
+// Split packages into dependencies and devDependencies by who imports them
+export function classifyPackages(
+    imports: Map<string, Set<string>>,
+    packages: Iterable<string>
+): { dependencies: string[]; devDependencies: string[] } {
+    const dependencies: string[] = [];
+    const devDependencies: string[] = [];
+
+    for (const name of packages) {
+        const roles = importRoles(imports.get(name) ?? []);
+        (roles.has("runtime") ? dependencies : devDependencies).push(name);
+    }
+
+    return { dependencies, devDependencies };
+}
+
+// One summary line per package: "vitest → devDependencies (test, config)"
+export function describeClassification(
+    imports: Map<string, Set<string>>,
+    packages: Iterable<string>
+): string {
+    return Array.from(packages)
+        .map((name) => {
+            const roles = importRoles(imports.get(name) ?? []);
+            return roles.has("runtime")
+                ? `   ${name} → dependencies`
+                : `   ${name} → devDependencies (${Array.from(roles).join(", ")})`;
+        })
+        .join("\n");
+}
+
+// List the files to scan: the app's source directories, test and tooling
+// directories, and source files in the project root (build and test configs)
+function listScannedFiles(projectRoot: string): string[] {
+    const files: string[] = [];
+
+    for (const dir of [...SCAN_DIRS, ...TEST_DIRS, ...TOOLING_DIRS]) {
+        const dirPath = join(projectRoot, dir);
+        if (existsSync(dirPath)) {
+            files.push(...listSourceFiles(dirPath));
+        }
+    }
+
+    for (const entry of readdirSync(projectRoot, { withFileTypes: true })) {
+        if (entry.isFile() && SOURCE_EXTENSIONS.includes(extname(entry.name))) {
+            files.push(join(projectRoot, entry.name));
+        }
+    }
+
+    return files;
+}
+
+// Collect every package import in the project, mapped to the files importing it
+export function scanImports(projectRoot: string): Map<string, Set<string>> {
+    const imports = new Map<string, Set<string>>();
+    const aliases = loadAliases(projectRoot);
+
+    for (const filePath of listScannedFiles(projectRoot)) {
+        let code: string;
+        try {
+            code = extractCode(filePath, readFileSync(filePath, "utf-8"));
+        } catch {
+            continue; // Unreadable file, skip it
+        }
+
+        for (const pattern of IMPORT_PATTERNS) {
+            for (const match of code.matchAll(pattern)) {
+                const specifier = match[1];
+                if (!specifier) {
+                    continue;
+                }
+                const resolved = resolveSpecifier(specifier, aliases);
+                if (resolved.kind !== "package") {
+                    continue;
+                }
+                if (!imports.has(resolved.name)) {
+                    imports.set(resolved.name, new Set());
+                }
+                imports.get(resolved.name)!.add(relative(projectRoot, filePath));
+            }
+        }
+    }
+
+    return imports;
+}
+
+// Read every dependency name declared in package.json
+export function declaredPackages(projectRoot: string): Set<string> {
+    const declared = new Set<string>();
+    const packageJsonPath = join(projectRoot, "package.json");
+
+    if (!existsSync(packageJsonPath)) {
+        return declared;
+    }
+
+    try {
+        const packageJson: unknown = JSON.parse(
+            readFileSync(packageJsonPath, "utf-8")
+        );
+        for (const field of [
+            "dependencies",
+            "devDependencies",
+            "peerDependencies",
+            "optionalDependencies",
+        ]) {
+            for (const name of jsonKeys(jsonField(packageJson, field))) {
+                declared.add(name);
+            }
+        }
+    } catch {
+        // Invalid package.json, treat as declaring nothing
+    }
+
+    return declared;
+}
+
+// Check whether a package is present in node_modules, here or hoisted above (workspaces)
+export function isInstalled(projectRoot: string, name: string): boolean {
+    let dir = projectRoot;
+    while (true) {
+        if (existsSync(join(dir, "node_modules", name, "package.json"))) {
+            return true;
+        }
+        const parent = dirname(dir);
+        if (parent === dir) return false;
+        dir = parent;
+    }
+}
+
+// Diff imported packages against package.json and node_modules
+export function findUninstalledPackages(
+    projectRoot: string,
+    packages: Iterable<string>
+): { undeclared: string[]; uninstalled: string[] } {
+    const declared = declaredPackages(projectRoot);
+    const undeclared = new Set<string>();
+    const uninstalled = new Set<string>();
+
+    for (const name of packages) {
+        if (isInstalled(projectRoot, name)) {
+            continue;
+        }
+        if (declared.has(name)) {
+            uninstalled.add(name);
+        } else {
+            undeclared.add(name);
+        }
+    }
+
+    return {
+        undeclared: Array.from(undeclared).sort(),
+        uninstalled: Array.from(uninstalled).sort(),
+    };
+}
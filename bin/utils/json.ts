@@ -0,0 +1,13 @@
+// A field of parsed JSON, undefined if the value isn't an object
+export function jsonField(value: unknown, key: string): unknown {
+    return typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+}
+
+// The keys of a parsed JSON object, none if the value isn't one
+export function jsonKeys(value: unknown): string[] {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+        ? Object.keys(value)
+        : [];
+}
@@ -0,0 +1,276 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join, relative } from "path";
+import { pathToFileURL } from "url";
+import {
+    addModule,
+    readAppConfig,
+    removeModule,
+    writeAppConfig,
+} from "./app-config.ts";
+import { readProjectFile, removeGeneratedFile, writeProjectFile } from "./changes.ts";
+import { jsonField, jsonKeys } from "./json.ts";
+import { installPackages, uninstallPackages } from "./packages.ts";
+import { detectManager, type PackageManager } from "./project.ts";
+
+// Where a project keeps its own modules
+export const LOCAL_MODULES_DIR = join(".px", "modules");
+
+// Installed packages that provide modules: px-module-* and @scope/px-module-*
+const PACKAGE_PATTERN = /^(@[^/]+\/)?px-module-/;
+
+// What px hands a module when it runs. Changes made through it show up in
+// --dry-run and --interactive, and are rolled back if the module fails.
+export interface PxModuleContext {
+    projectRoot: string;
+    manager: PackageManager;
+    // px remove --force: also delete generated files edited since
+    force: boolean;
+    // The flags px add was given, so a module can take answers from them
+    // instead of asking, e.g. { framework: "svelte" } for --framework svelte
+    options: Record<string, string | boolean | undefined>;
+    install(packages: string[], options?: { dev?: boolean }): Promise<void>;
+    uninstall(packages: string[]): Promise<void>;
+    // Paths are relative to the project root
+    readFile(path: string): string | null;
+    // Returns whether the file was written
+    writeFile(path: string, content: string): Promise<boolean>;
+    // Delete a file if it's still one of the generated versions (or with
+    // force). Returns false if it was kept.
+    removeFile(path: string, generated: string[]): boolean;
+    // Add or remove a Primate module in config/app.ts, e.g.
+    // addToAppConfig("@primate/react", "{ extensions: [\".jsx\"] }").
+    // Returns false if config/app.ts is shaped in a way px can't edit.
+    addToAppConfig(source: string, options?: string): Promise<boolean>;
+    removeFromAppConfig(source: string): Promise<boolean>;
+}
+
+// A module px add can set up and px remove can take out again
+export interface PxModule {
+    name: string;
+    description: string;
+    // Modules that must be set up first
+    dependencies?: string[];
+    // Files install or remove may change, besides package.json and lockfiles.
+    // Only needed for files written without the context.
+    files?: string[];
+    // Whether it's set up in the project
+    detect(projectRoot: string): boolean | Promise<boolean>;
+    install(context: PxModuleContext): Promise<void>;
+    // Returns generated files left in place because they were edited
+    remove?(context: PxModuleContext): Promise<string[] | void>;
+}
+
+// A module and where it was found
+export interface RegisteredModule {
+    module: PxModule;
+    // "built-in", the package name, or the file under .px/modules
+    source: string;
+}
+
+// The context a module runs with
+export function moduleContext(
+    projectRoot: string,
+    options: {
+        force?: boolean;
+        flags?: Record<string, string | boolean | undefined>;
+    } = {}
+): PxModuleContext {
+    const manager = detectManager(projectRoot);
+
+    return {
+        projectRoot,
+        manager,
+        force: !!options.force,
+        options: options.flags ?? {},
+        async install(packages, { dev = false } = {}) {
+            await installPackages(projectRoot, packages, manager, dev);
+        },
+        async uninstall(packages) {
+            await uninstallPackages(projectRoot, packages, manager);
+        },
+        readFile(path) {
+            return readProjectFile(join(projectRoot, path));
+        },
+        writeFile(path, content) {
+            return writeProjectFile(projectRoot, path, content);
+        },
+        removeFile(path, generated) {
+            return (
+                removeGeneratedFile(projectRoot, path, generated, !!options.force) !==
+                "edited"
+            );
+        },
+        async addToAppConfig(source, moduleOptions = "") {
+            const config = readAppConfig(projectRoot);
+            const result = addModule(config, source, moduleOptions);
+            if (result === "changed") await writeAppConfig(config);
+            return result !== "unsupported";
+        },
+        async removeFromAppConfig(source) {
+            const config = readAppConfig(projectRoot);
+            const result = removeModule(config, source);
+            if (result === "changed") await writeAppConfig(config);
+            return result !== "unsupported";
+        },
+    };
+}
+
+// Whether a module export has the required shape
+function isModule(value: unknown): value is PxModule {
+    if (typeof value !== "object" || value === null) return false;
+    const module = value as Record<string, unknown>;
+    return (
+        typeof module.name === "string" &&
+        typeof module.description === "string" &&
+        typeof module.detect === "function" &&
+        typeof module.install === "function" &&
+        (module.remove === undefined || typeof module.remove === "function") &&
+        (module.dependencies === undefined || Array.isArray(module.dependencies))
+    );
+}
+
+// Modules a file or package exports: its default export, a module or an array
+async function importModules(specifier: string, source: string): Promise<PxModule[]> {
+    try {
+        const exported: unknown = (await import(specifier)).default;
+        const modules: unknown[] = Array.isArray(exported) ? exported : [exported];
+        const valid = modules.filter(isModule);
+        if (valid.length < modules.length) {
+            console.warn(
+                `⚠️  ${source} exports something that isn't a px module (needs name, description, detect and install)`
+            );
+        }
+        return valid;
+    } catch (error) {
+        console.warn(
+            `⚠️  Could not load px modules from ${source}: ${
+                error instanceof Error ? error.message : error
+            }`
+        );
+        return [];
+    }
+}
+
+// Installed px-module-* packages the project depends on
+function modulePackages(projectRoot: string): string[] {
+    try {
+        const packageJson: unknown = JSON.parse(
+            readFileSync(join(projectRoot, "package.json"), "utf-8")
+        );
+        const names = new Set([
+            ...jsonKeys(jsonField(packageJson, "dependencies")),
+            ...jsonKeys(jsonField(packageJson, "devDependencies")),
+        ]);
+        return Array.from(names)
+            .filter((name) => PACKAGE_PATTERN.test(name))
+            .sort();
+    } catch {
+        return [];
+    }
+}
+
+// Every module available in the project: px's own, then those from
+// px-module-* packages, then those in .px/modules. Built-in names can't be
+// taken over; otherwise the first module found with a name wins.
+export async function loadModules(
+    projectRoot: string,
+    builtins: PxModule[]
+): Promise<RegisteredModule[]> {
+    const registered: RegisteredModule[] = builtins.map((module) => ({
+        module,
+        source: "built-in",
+    }));
+
+    const found: RegisteredModule[] = [];
+    for (const name of modulePackages(projectRoot)) {
+        let entry: string;
+        try {
+            entry = Bun.resolveSync(name, projectRoot);
+        } catch {
+            console.warn(`⚠️  ${name} is in package.json but not installed`);
+            continue;
+        }
+        for (const module of await importModules(pathToFileURL(entry).href, name)) {
+            found.push({ module, source: name });
+        }
+    }
+
+    const localDir = join(projectRoot, LOCAL_MODULES_DIR);
+    if (existsSync(localDir)) {
+        const files = readdirSync(localDir)
+            .filter((file) => /\.(ts|js|mjs)$/.test(file) && !file.endsWith(".d.ts"))
+            .sort();
+        for (const file of files) {
+            const path = join(localDir, file);
+            const source = relative(projectRoot, path);
+            for (const module of await importModules(pathToFileURL(path).href, source)) {
+                found.push({ module, source });
+            }
+        }
+    }
+
+    for (const entry of found) {
+        const taken = registered.find(
+            ({ module }) => module.name.toLowerCase() === entry.module.name.toLowerCase()
+        );
+        if (taken) {
+            console.warn(
+                `⚠️  Ignoring module ${entry.module.name} from ${entry.source}: ${
+                    taken.source === "built-in" ? "px has one" : `already provided by ${taken.source}`
+                }`
+            );
+            continue;
+        }
+        registered.push(entry);
+    }
+
+    return registered;
+}
+
+// Find a module by name, case-insensitively
+export function findModule(
+    modules: RegisteredModule[],
+    name: string
+): RegisteredModule | undefined {
+    return modules.find(({ module }) => module.name.toLowerCase() === name.toLowerCase());
+}
+
+// The modules px add runs for those requested, in order: each one after the
+// modules it depends on, which are pulled in when not requested themselves.
+// Throws if a dependency isn't available or modules depend on each other.
+export function orderModules(
+    modules: RegisteredModule[],
+    requested: RegisteredModule[]
+): RegisteredModule[] {
+    const ordered: RegisteredModule[] = [];
+    // Modules whose dependencies are being visited, in the order reached
+    const path: RegisteredModule[] = [];
+
+    const visit = (entry: RegisteredModule) => {
+        if (ordered.includes(entry)) return;
+        if (path.includes(entry)) {
+            const cycle = [...path.slice(path.indexOf(entry)), entry];
+            throw new Error(
+                `Modules depend on each other: ${cycle
+                    .map(({ module }) => module.name)
+                    .join(" → ")}`
+            );
+        }
+
+        path.push(entry);
+        for (const dependency of entry.module.dependencies ?? []) {
+            const found = findModule(modules, dependency);
+            if (!found) {
+                throw new Error(
+                    `The ${entry.module.name} module needs ${dependency}, which isn't available`
+                );
+            }
+            visit(found);
+        }
+        path.pop();
+        ordered.push(entry);
+    };
+
+    for (const entry of requested) visit(entry);
+    return ordered;
+}
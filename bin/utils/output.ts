@@ -0,0 +1,158 @@
+export type StreamName = "stdout" | "stderr";
+
+export interface OutputOptions {
+    // Echo output to the terminal (default: true)
+    echo?: boolean;
+    // Echo chunks as they arrive instead of whole lines, for interactive
+    // commands whose prompts don't end in a newline. Formatting and filters
+    // don't apply.
+    passthrough?: boolean;
+    // Prefix echoed lines with [stdout] / [stderr]
+    prefix?: boolean;
+    // Prefix echoed lines with the time they arrived
+    timestamps?: boolean;
+    // Only echo lines matching this
+    grep?: RegExp;
+    // Don't echo lines matching any of these
+    hide?: RegExp[];
+    // Called with every complete line, whether echoed or not
+    onLine?: (line: string, stream: StreamName) => void;
+}
+
+export interface OutputPipeline {
+    // Everything read so far, per stream
+    readonly stdout: string;
+    readonly stderr: string;
+    // Resolves once both streams have ended or been cancelled
+    done: Promise<void>;
+    // Stop reading, e.g. when a killed process left a pipe open
+    cancel(): void;
+}
+
+// Hot reload chatter hidden by --hide-hmr
+export const HMR_PATTERNS = [
+    /\bhmr\b/i,
+    /\bhot[- ]?(?:module[- ]?)?reload/i,
+    /\b(?:page|full) reload\b/i,
+    /\breloading\b/i,
+    /\brebuil(?:t|ding)\b/i,
+];
+
+// Current local time as HH:MM:SS.mmm
+function timestamp(): string {
+    const now = new Date();
+    return `${now.toTimeString().slice(0, 8)}.${String(now.getMilliseconds()).padStart(3, "0")}`;
+}
+
+// Decide whether a line should be echoed, and how it looks
+function formatLine(
+    line: string,
+    stream: StreamName,
+    options: OutputOptions
+): string | null {
+    if (options.grep && !options.grep.test(line)) {
+        return null;
+    }
+    if (options.hide?.some((pattern) => pattern.test(line))) {
+        return null;
+    }
+
+    let formatted = line;
+    if (options.prefix) {
+        formatted = `[${stream}] ${formatted}`;
+    }
+    if (options.timestamps) {
+        formatted = `${timestamp()} ${formatted}`;
+    }
+    return formatted;
+}
+
+// Read a stream, decoding multi-byte characters across chunk boundaries, and
+// hand it on chunk by chunk and line by line
+async function readLines(
+    reader: { read(): Promise<{ done: boolean; value?: Uint8Array }> },
+    onChunk: (text: string) => void,
+    onLine: (line: string) => void
+): Promise<void> {
+    const decoder = new TextDecoder();
+    let pending = "";
+
+    const push = (text: string) => {
+        onChunk(text);
+        pending += text;
+        const lines = pending.split("\n");
+        pending = lines.pop()!;
+        for (const line of lines) {
+            onLine(line.replace(/\r$/, ""));
+        }
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            push(decoder.decode(value, { stream: true }));
+        }
+    } catch {
+        // Cancelled
+    }
+
+    push(decoder.decode());
+    if (pending) {
+        onLine(pending);
+    }
+}
+
+// Split a process's stdout and stderr into lines, run onLine on each, and echo
+// them to the terminal with the requested formatting and filters
+export function pipeOutput(
+    proc: {
+        stdout: ReadableStream<Uint8Array>;
+        stderr: ReadableStream<Uint8Array>;
+    },
+    options: OutputOptions = {}
+): OutputPipeline {
+    const { echo = true, passthrough = false } = options;
+    const output = { stdout: "", stderr: "" };
+    const readers = {
+        stdout: proc.stdout.getReader(),
+        stderr: proc.stderr.getReader(),
+    };
+
+    const read = (stream: StreamName) => {
+        const terminal = stream === "stdout" ? process.stdout : process.stderr;
+
+        return readLines(
+            readers[stream],
+            (text) => {
+                output[stream] += text;
+                if (echo && passthrough) {
+                    terminal.write(text);
+                }
+            },
+            (line) => {
+                options.onLine?.(line, stream);
+                if (echo && !passthrough) {
+                    const formatted = formatLine(line, stream, options);
+                    if (formatted !== null) {
+                        terminal.write(formatted + "\n");
+                    }
+                }
+            }
+        );
+    };
+
+    return {
+        get stdout() {
+            return output.stdout;
+        },
+        get stderr() {
+            return output.stderr;
+        },
+        done: Promise.all([read("stdout"), read("stderr")]).then(() => {}),
+        cancel() {
+            readers.stdout.cancel().catch(() => {});
+            readers.stderr.cancel().catch(() => {});
+        },
+    };
+}
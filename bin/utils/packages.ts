@@ -1,24 +1,52 @@
-import { spawn } from "bun";
+import { spawn, spawnSync } from "bun";
 import ora from "ora";
+import { isAbsolute, join, relative } from "path";
+import {
+    findWorkspace,
+    staleLockfiles,
+    type ManagerInfo,
+} from "./project.ts";
+import {
+    loadAliases,
+    resolveSpecifier,
+    suggestFiles,
+    type MissingFile,
+} from "./resolve.ts";
+import { changeMode, planCommand } from "./changes.ts";
+import { declaredPackages, scanImports } from "./imports.ts";
+import { pipeOutput } from "./output.ts";
+import { killTree, onShutdown } from "./process.ts";
+import { recordInstall } from "./report.ts";
+import { installedBy } from "./transaction.ts";
 
-// Extract missing packages from output
-export function findMissingPackages(
+// An unresolved import found in build output
+export interface UnresolvedImport {
+    specifier: string;
+    importer?: string;
+}
+
+// A bundler error, with the source location it points at when printed
+export interface BundlerError {
+    message: string;
+    // "components/Card.tsx:3:8", relative to the project root
+    location?: string;
+}
+
+// Source location printed after an error ("routes/index.ts:3:8" or "at /abs/file.ts:3:8")
+const LOCATION_PATTERN =
+    /(?:at\s+)?((?:\/|\.{1,2}\/)?[\w@$.~\-\/]+\.(?:[cm]?[jt]sx?|svelte|vue)):\d+:\d+/;
+
+// Extract unresolved import specifiers, and the file importing them when printed, from output
+export function findUnresolvedImports(
     stdout: string,
-    stderr: string
-): Set<string> {
-    const missingPkgs = new Set<string>();
+    stderr: string,
+    projectRoot: string = process.cwd()
+): UnresolvedImport[] {
+    const found = new Map<string, UnresolvedImport>();
 
     // Combine output for searching
     const combined = stdout + "\n" + stderr;
 
-    // Debug: Write output to temp file for inspection
-    if (process.env.DEBUG_PRUN) {
-        const fs = require("fs");
-        fs.writeFileSync("/tmp/prun-debug-stdout.txt", stdout);
-        fs.writeFileSync("/tmp/prun-debug-stderr.txt", stderr);
-        console.log("\n[DEBUG] Output written to /tmp/prun-debug-*.txt");
-    }
-
     // Multiple regex patterns to catch different error formats
     const patterns = [
         /Could not resolve\s+["']([^"']+)["']/gi, // Base pattern (case insensitive)
@@ -30,16 +58,73 @@ export function findMissingPackages(
     for (const pattern of patterns) {
         let match;
         while ((match = pattern.exec(combined)) !== null) {
-            const pkg = match[1];
-            missingPkgs.add(pkg);
+            const specifier = match[1]!;
+
+            // Bundlers print the importing file on one of the next few lines
+            const following = combined
+                .slice(match.index + match[0].length)
+                .split("\n")
+                .slice(0, 4)
+                .join("\n");
+            const location = following.match(LOCATION_PATTERN)?.[1];
+            const importer = location
+                ? isAbsolute(location)
+                    ? location
+                    : join(projectRoot, location)
+                : undefined;
+
+            const key = `${specifier}\0${importer ?? ""}`;
+            if (!found.has(key)) {
+                found.set(key, { specifier, importer });
+            }
             if (process.env.DEBUG_PRUN) {
                 console.log(
-                    `[DEBUG] Found package: ${pkg} using pattern: ${pattern}`
+                    `[DEBUG] Found specifier: ${specifier} using pattern: ${pattern}`
                 );
             }
         }
     }
 
+    return Array.from(found.values());
+}
+
+// Extract missing packages from output, mapped to the files importing them
+// (relative to the project root) when the output names them
+export function findMissingPackages(
+    stdout: string,
+    stderr: string,
+    projectRoot: string = process.cwd()
+): Map<string, Set<string>> {
+    const missingPkgs = new Map<string, Set<string>>();
+
+    // Debug: Write output to temp file for inspection
+    if (process.env.DEBUG_PRUN) {
+        const fs = require("fs");
+        fs.writeFileSync("/tmp/prun-debug-stdout.txt", stdout);
+        fs.writeFileSync("/tmp/prun-debug-stderr.txt", stderr);
+        console.log("\n[DEBUG] Output written to /tmp/prun-debug-*.txt");
+    }
+
+    const aliases = loadAliases(projectRoot);
+
+    for (const { specifier, importer } of findUnresolvedImports(
+        stdout,
+        stderr,
+        projectRoot
+    )) {
+        const resolved = resolveSpecifier(specifier, aliases);
+        if (resolved.kind === "package") {
+            if (!missingPkgs.has(resolved.name)) {
+                missingPkgs.set(resolved.name, new Set());
+            }
+            if (importer) {
+                missingPkgs.get(resolved.name)!.add(relative(projectRoot, importer));
+            }
+        } else if (process.env.DEBUG_PRUN) {
+            console.log(`[DEBUG] Skipping ${resolved.kind} import: ${specifier}`);
+        }
+    }
+
     if (process.env.DEBUG_PRUN) {
         console.log(`[DEBUG] Total packages found: ${missingPkgs.size}`);
     }
@@ -47,73 +132,379 @@ export function findMissingPackages(
     return missingPkgs;
 }
 
-// Install missing packages
-export async function installPackages(
+// Extract relative imports that point at files which don't exist, with suggestions
+export function findMissingFiles(
+    stdout: string,
+    stderr: string,
+    projectRoot: string = process.cwd()
+): MissingFile[] {
+    return findUnresolvedImports(stdout, stderr, projectRoot)
+        .filter(({ specifier }) => resolveSpecifier(specifier).kind === "relative")
+        .map(({ specifier, importer }) => ({
+            specifier,
+            importer,
+            suggestions: suggestFiles(projectRoot, specifier, importer),
+        }));
+}
+
+// Extract bundler errors (esbuild's "✘ [ERROR]", Bun's "error:") from build
+// output. Missing imports and packages are left to the rules that install them.
+export function findBundlerErrors(
+    stdout: string,
+    stderr: string,
+    projectRoot: string = process.cwd()
+): BundlerError[] {
+    const found = new Map<string, BundlerError>();
+    const combined = stdout + "\n" + stderr;
+
+    // Shorten a printed location to one relative to the project root
+    const locate = (file: string, position: string) =>
+        `${relative(projectRoot, isAbsolute(file) ? file : join(projectRoot, file))}${position}`;
+
+    const add = (message: string, location?: string) => {
+        if (/^(?:Could not resolve|Cannot find (?:module|package))\b/i.test(message)) {
+            return;
+        }
+        const key = `${message}\0${location ?? ""}`;
+        if (!found.has(key)) {
+            found.set(key, { message, location });
+        }
+    };
+
+    // Message first, location on one of the next few lines
+    for (const pattern of [/✘ \[ERROR\]\s+(.+)/g, /^error:\s+(.+)/gim]) {
+        for (const match of combined.matchAll(pattern)) {
+            const following = combined
+                .slice(match.index! + match[0].length)
+                .split("\n")
+                .slice(0, 4)
+                .join("\n");
+            const location = following.match(LOCATION_PATTERN);
+            // Keep the ":line:column" that follows the file
+            const position = location?.[0].match(/:\d+:\d+$/)?.[0] ?? "";
+            add(
+                match[1]!.trim(),
+                location ? locate(location[1]!, position) : undefined
+            );
+        }
+    }
+
+    // "Transform failed with 1 error:\nroutes/index.ts:3:8: ERROR: Expected ..."
+    for (const match of combined.matchAll(/^(\S+?)(:\d+:\d+): ERROR: (.+)$/gm)) {
+        add(match[3]!.trim(), locate(match[1]!, match[2]!));
+    }
+
+    return Array.from(found.values());
+}
+
+// The package manager command adding (or removing) packages in the project.
+// Inside a workspace it runs from the root, into the app package only.
+function packageCommand(
     projectRoot: string,
-    packages: string[],
     manager: "bun" | "pnpm" | "yarn" | "npm",
-    isDev: boolean = false // Add this parameter
-): Promise<void> {
-    const commands: Record<typeof manager, [string, string[]]> = {
-        bun: ["bun", ["add", ...(isDev ? ["-D"] : []), ...packages]],
-        pnpm: ["pnpm", ["add", ...(isDev ? ["-D"] : []), ...packages]],
-        yarn: ["yarn", ["add", ...(isDev ? ["-D"] : []), ...packages]],
+    action: "add" | "remove",
+    packages: string[],
+    isDev: boolean = false
+): { command: string[]; cwd: string } {
+    const workspace = findWorkspace(projectRoot);
+    const target = workspace
+        ? workspace.packageName ?? relative(workspace.root, workspace.packageDir)
+        : null;
+    const filters: Record<typeof manager, string[]> = workspace
+        ? {
+              bun: ["--cwd", workspace.packageDir],
+              pnpm: ["--filter", target!],
+              yarn: [],
+              npm: ["--workspace", target!],
+          }
+        : { bun: [], pnpm: [], yarn: [], npm: [] };
+
+    const dev = isDev && action === "add" ? ["-D"] : [];
+    const verb = action === "remove" && manager === "npm" ? "uninstall" : action;
+    const commands: Record<typeof manager, string[]> = {
+        bun: ["bun", verb, ...filters.bun, ...dev, ...packages],
+        pnpm: ["pnpm", verb, ...filters.pnpm, ...dev, ...packages],
+        // yarn workspace <name> add ... needs a package name
+        yarn: workspace?.packageName
+            ? ["yarn", "workspace", workspace.packageName, verb, ...dev, ...packages]
+            : ["yarn", verb, ...dev, ...packages],
         npm: [
             "npm",
-            ["install", ...(isDev ? ["--save-dev"] : []), ...packages],
+            action === "add" ? "install" : verb,
+            ...filters.npm,
+            ...(isDev && action === "add" ? ["--save-dev"] : []),
+            ...packages,
         ],
     };
 
-    const [cmd, cmdArgs] = commands[manager];
+    return {
+        command: commands[manager],
+        cwd:
+            workspace && (manager !== "yarn" || workspace.packageName)
+                ? workspace.root
+                : projectRoot,
+    };
+}
+
+// Run a package manager command, collecting its output quietly
+async function runPackageManager(command: string[], cwd: string) {
+    const startedAt = Date.now();
+    const proc = spawn({
+        cmd: command,
+        cwd,
+        stdout: "pipe",
+        stderr: "pipe",
+        stdin: "inherit",
+    });
+
+    // On Ctrl-C, stop the package manager before anything restores package.json
+    const removeShutdownHook = onShutdown(async (received) => {
+        killTree(proc.pid, received);
+        await proc.exited;
+    });
+
+    const output = pipeOutput(proc, { echo: false });
+    await output.done;
+    await proc.exited;
+    removeShutdownHook();
+
+    return {
+        exitCode: proc.exitCode ?? 1,
+        stdout: output.stdout,
+        stderr: output.stderr,
+        durationMs: Date.now() - startedAt,
+    };
+}
+
+// Never let a package name turn into a package manager flag (--registry ...)
+function rejectFlags(packages: string[], action: string): void {
+    const flags = packages.filter((pkg) => pkg.startsWith("-"));
+    if (flags.length > 0) {
+        throw new Error(`Refusing to ${action} ${flags.join(", ")}: not a package name`);
+    }
+}
+
+// Packages held back while px add sets up several modules, installed together
+// once they've all run
+let queued: { dependencies: Set<string>; devDependencies: Set<string> } | null = null;
+
+// Start (or stop, dropping anything held) holding installs back
+export function queueInstalls(enabled: boolean): void {
+    queued = enabled ? { dependencies: new Set(), devDependencies: new Set() } : null;
+}
+
+// Install everything held back since queueInstalls(true) in one step, then
+// stop holding installs. Returns the packages installed (or, in a dry run,
+// planned).
+export async function installQueued(
+    projectRoot: string,
+    manager: "bun" | "pnpm" | "yarn" | "npm"
+): Promise<string[]> {
+    const held = queued;
+    queued = null;
+    if (!held) return [];
+
+    const dependencies = Array.from(held.dependencies);
+    // A package something needs at runtime isn't also a dev dependency
+    const devDependencies = Array.from(held.devDependencies).filter(
+        (pkg) => !held.dependencies.has(pkg)
+    );
+
+    if (dependencies.length > 0) {
+        await installPackages(projectRoot, dependencies, manager);
+    }
+    if (devDependencies.length > 0) {
+        await installPackages(projectRoot, devDependencies, manager, true);
+    }
+    return [...dependencies, ...devDependencies];
+}
+
+// Install missing packages. Throws if the package manager fails.
+// Returns false if px add --dry-run only listed the command, or the packages
+// were queued to install with those of other modules.
+export async function installPackages(
+    projectRoot: string,
+    packages: string[],
+    manager: "bun" | "pnpm" | "yarn" | "npm",
+    isDev: boolean = false // Add this parameter
+): Promise<boolean> {
+    rejectFlags(packages, "install");
+
+    if (queued) {
+        const target = isDev ? queued.devDependencies : queued.dependencies;
+        for (const pkg of packages) target.add(pkg);
+        console.log(`📦 Queued ${packages.join(", ")} to install with the other modules`);
+        return false;
+    }
+
+    const { command, cwd } = packageCommand(projectRoot, manager, "add", packages, isDev);
+
+    // px add --dry-run lists the command instead
+    if (changeMode() === "dry-run") {
+        planCommand(command);
+        return false;
+    }
 
     const spinner = ora({
         text: `Installing ${packages.join(", ")} with ${manager}...`,
         spinner: "dots",
     }).start();
 
+    // The output is only shown if the install fails
+    const result = await runPackageManager(command, cwd);
+
+    recordInstall({
+        command,
+        packages,
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+    });
+
+    if (result.exitCode !== 0) {
+        spinner.fail(`Failed to install packages with ${manager}`);
+        if (result.stdout) console.log(result.stdout);
+        if (result.stderr) console.error(result.stderr);
+        throw new Error(`${manager} could not install ${packages.join(", ")}`);
+    }
+
+    spinner.succeed(`Installed ${packages.join(", ")} with ${manager}`);
+    return true;
+}
+
+// Uninstall packages. Throws if the package manager fails.
+export async function uninstallPackages(
+    projectRoot: string,
+    packages: string[],
+    manager: "bun" | "pnpm" | "yarn" | "npm"
+): Promise<void> {
+    rejectFlags(packages, "uninstall");
+    const { command, cwd } = packageCommand(projectRoot, manager, "remove", packages);
+
+    const spinner = ora({
+        text: `Uninstalling ${packages.join(", ")} with ${manager}...`,
+        spinner: "dots",
+    }).start();
+
+    const result = await runPackageManager(command, cwd);
+
+    if (result.exitCode !== 0) {
+        spinner.fail(`Failed to uninstall packages with ${manager}`);
+        if (result.stdout) console.log(result.stdout);
+        if (result.stderr) console.error(result.stderr);
+        throw new Error(`${manager} could not uninstall ${packages.join(", ")}`);
+    }
+
+    spinner.succeed(`Uninstalled ${packages.join(", ")} with ${manager}`);
+}
+
+// Those of a module's packages px remove can uninstall: the ones its px add
+// installed, that package.json still depends on and no project file imports.
+// Call once the module's files are gone, so only the ones kept count.
+export function removablePackages(
+    projectRoot: string,
+    module: string,
+    packages: string[]
+): string[] {
+    const installed = new Set(installedBy(projectRoot, module));
+    const declared = declaredPackages(projectRoot);
+    const imports = scanImports(projectRoot);
+    const removable: string[] = [];
+
+    for (const pkg of new Set(packages)) {
+        if (!declared.has(pkg)) continue;
+        if (!installed.has(pkg)) {
+            console.log(`⏭️  Keeping ${pkg}: px add ${module} didn't install it`);
+        } else if (imports.has(pkg)) {
+            const importers = Array.from(imports.get(pkg)!);
+            console.log(`⏭️  Keeping ${pkg}: imported by ${importers.join(", ")}`);
+        } else {
+            removable.push(pkg);
+        }
+    }
+
+    return removable;
+}
+
+// Install everything declared in package.json (the whole workspace, if in one)
+export async function installAll(
+    projectRoot: string,
+    manager: "bun" | "pnpm" | "yarn" | "npm"
+): Promise<boolean> {
+    const spinner = ora(`Running ${manager} install...`).start();
+
+    const startedAt = Date.now();
     const proc = spawn({
-        cmd: [cmd, ...cmdArgs],
-        cwd: projectRoot,
+        cmd: [manager, "install"],
+        cwd: findWorkspace(projectRoot)?.root ?? projectRoot,
         stdout: "pipe",
         stderr: "pipe",
         stdin: "inherit",
     });
 
-    let stdout = "";
-    let stderr = "";
-
-    const stdoutReader = proc.stdout.getReader();
-    const stderrReader = proc.stderr.getReader();
-    const decoder = new TextDecoder();
-
-    // Read streams concurrently
-    await Promise.all([
-        (async () => {
-            while (true) {
-                const { done, value } = await stdoutReader.read();
-                if (done) break;
-                const text = decoder.decode(value);
-                stdout += text;
-            }
-        })(),
-        (async () => {
-            while (true) {
-                const { done, value } = await stderrReader.read();
-                if (done) break;
-                const text = decoder.decode(value);
-                stderr += text;
-            }
-        })(),
-    ]);
-
+    const output = pipeOutput(proc, { echo: false });
+    await output.done;
     await proc.exited;
 
-    if (proc.exitCode !== 0) {
-        spinner.fail(`Failed to install packages with ${manager}`);
-        if (stdout) console.log(stdout);
-        if (stderr) console.error(stderr);
-        process.exit(1);
+    recordInstall({
+        command: [manager, "install"],
+        packages: [],
+        exitCode: proc.exitCode ?? 1,
+        durationMs: Date.now() - startedAt,
+    });
+
+    if (proc.exitCode === 0) {
+        spinner.succeed(`${manager} install completed`);
+        return true;
     }
 
-    spinner.succeed(`Installed ${packages.join(", ")} with ${manager}`);
+    spinner.fail(`${manager} install failed`);
+    if (output.stderr) console.error(output.stderr);
+    return false;
+}
+
+// Version of a package manager on PATH, or null if it isn't installed
+export function managerVersion(
+    manager: "bun" | "pnpm" | "yarn" | "npm",
+    cwd: string = process.cwd()
+): string | null {
+    try {
+        const proc = spawnSync({
+            cmd: [manager, "--version"],
+            cwd,
+            stdout: "pipe",
+            stderr: "pipe",
+        });
+        return proc.exitCode === 0 ? proc.stdout.toString().trim() : null;
+    } catch {
+        return null;
+    }
+}
+
+// Problems with the detected package manager worth warning about
+export function managerWarnings(info: ManagerInfo): string[] {
+    const warnings: string[] = [];
+
+    const stale = staleLockfiles(info);
+    if (stale.length > 0) {
+        warnings.push(
+            `Several lockfiles found (${info.lockfiles.join(", ")}), using ${info.manager}. ` +
+                `Run \`px pm switch ${info.manager}\` to remove the others.`
+        );
+    }
+
+    if (info.version) {
+        const installed = managerVersion(info.manager, info.dir);
+        if (!installed) {
+            warnings.push(
+                `package.json pins ${info.manager}@${info.version} but ${info.manager} is not installed`
+            );
+        } else if (installed !== info.version) {
+            warnings.push(
+                `package.json pins ${info.manager}@${info.version} but ${info.manager} ${installed} is installed. ` +
+                    "Run `corepack enable` to use the pinned version."
+            );
+        }
+    }
+
+    return warnings;
 }
@@ -0,0 +1,159 @@
+import { confirm } from "@inquirer/prompts";
+import boxen from "boxen";
+import { builtinModules } from "module";
+import { loadPxConfig } from "./config.ts";
+import { promptMode, whyNotAsking } from "./prompt.ts";
+
+// Packages installed without asking unless px.config.json says otherwise
+export const DEFAULT_ALLOW = ["primate", "@primate/*"];
+
+// How automatic installs are carried out, from px run's flags
+export interface InstallOptions {
+    // Install packages outside the allowlist without asking
+    yes?: boolean;
+    // Only print what would be installed
+    dryRun?: boolean;
+}
+
+// Packages sorted by what the policy lets happen to them
+export interface PolicyVerdict {
+    allowed: string[];
+    // Valid, but only installed after confirmation or --yes
+    unlisted: string[];
+    denied: string[];
+    invalid: { name: string; reason: string }[];
+}
+
+// Packages the user declined to install, so px doesn't ask again this session
+const declined = new Set<string>();
+
+// npm package name syntax: lowercase, URL-safe, optionally scoped
+const PACKAGE_NAME = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+// Explain why a string can't be passed to the package manager, or null if it can
+export function invalidPackageReason(name: string): string | null {
+    if (name.startsWith("-")) {
+        return "looks like a command-line flag";
+    }
+    if (name.length > 214) {
+        return "is longer than 214 characters";
+    }
+    if (!PACKAGE_NAME.test(name)) {
+        return "is not a valid npm package name";
+    }
+    if (builtinModules.includes(name)) {
+        return "is a Node.js builtin module";
+    }
+    return null;
+}
+
+// Match a package name against an allow/deny pattern ("@primate/*", "lodash")
+function matchesPattern(name: string, pattern: string): boolean {
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(name);
+}
+
+// Sort packages by the project's install policy; deny wins over allow
+export function checkPolicy(
+    projectRoot: string,
+    packages: string[],
+    // Packages px names itself rather than reading them from output
+    trusted: boolean = false
+): PolicyVerdict {
+    const { allow = [], deny = [] } = loadPxConfig(projectRoot).install ?? {};
+    const allowPatterns = [...DEFAULT_ALLOW, ...allow];
+    const verdict: PolicyVerdict = {
+        allowed: [],
+        unlisted: [],
+        denied: [],
+        invalid: [],
+    };
+
+    for (const name of packages) {
+        const reason = invalidPackageReason(name);
+        if (reason) {
+            verdict.invalid.push({ name, reason });
+        } else if (deny.some((pattern) => matchesPattern(name, pattern))) {
+            verdict.denied.push(name);
+        } else if (
+            trusted ||
+            allowPatterns.some((pattern) => matchesPattern(name, pattern))
+        ) {
+            verdict.allowed.push(name);
+        } else {
+            verdict.unlisted.push(name);
+        }
+    }
+
+    return verdict;
+}
+
+// Apply the install policy and return the packages that may be installed.
+// Packages outside the allowlist need --yes or an interactive confirmation;
+// when px can't ask, it exits naming --yes.
+export async function vetPackages(
+    projectRoot: string,
+    packages: string[],
+    options: InstallOptions & { trusted?: boolean } = {}
+): Promise<string[]> {
+    const verdict = checkPolicy(projectRoot, packages, options.trusted);
+
+    for (const { name, reason } of verdict.invalid) {
+        console.log(`🚫 Not installing "${name}": ${reason}`);
+    }
+    for (const name of verdict.denied) {
+        console.log(`🚫 Not installing ${name}: denied in px.config.json`);
+    }
+
+    if (verdict.unlisted.length === 0 || options.yes) {
+        return [...verdict.allowed, ...verdict.unlisted];
+    }
+
+    const declinedEarlier = verdict.unlisted.filter((name) => declined.has(name));
+    if (declinedEarlier.length > 0) {
+        console.log(`⏭️  Not installing ${declinedEarlier.join(", ")}: declined earlier`);
+        verdict.unlisted = verdict.unlisted.filter((name) => !declined.has(name));
+        if (verdict.unlisted.length === 0) {
+            return verdict.allowed;
+        }
+    }
+
+    if (options.dryRun) {
+        console.log(
+            `❓ Needs confirmation (not in allowlist): ${verdict.unlisted.join(", ")}`
+        );
+        return [...verdict.allowed, ...verdict.unlisted];
+    }
+
+    if (promptMode() === "never") {
+        const them = verdict.unlisted.length === 1 ? "it" : "them";
+        console.error(
+            boxen(
+                `❌ Not in the allowlist: ${verdict.unlisted.join(", ")}\n   px can't ask whether to install ${them}: ${whyNotAsking()}\n\nPass --yes to install ${them} anyway,\nor add ${them} to install.allow in px.config.json.`,
+                {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                }
+            )
+        );
+        process.exit(1);
+    }
+
+    const approved = await confirm({
+        message: `Install ${verdict.unlisted.join(", ")}? (not in the allowlist)`,
+        default: false,
+    });
+
+    if (!approved) {
+        for (const name of verdict.unlisted) {
+            declined.add(name);
+        }
+        return verdict.allowed;
+    }
+    return [...verdict.allowed, ...verdict.unlisted];
+}
@@ -0,0 +1,315 @@
+import { select } from "@inquirer/prompts";
+import boxen from "boxen";
+import { spawn } from "bun";
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    readlinkSync,
+    unlinkSync,
+    writeFileSync,
+} from "fs";
+import { createServer } from "net";
+import { dirname } from "path";
+import {
+    EMPTY_CONFIG,
+    overridePort,
+    readAppConfig,
+    restorePort,
+} from "./app-config.ts";
+import { onShutdown } from "./process.ts";
+import { ask } from "./prompt.ts";
+
+// Ways to settle a port conflict: stop the process holding the port, move to
+// the next free one, or give up
+export const PORT_CONFLICT_ACTIONS = ["kill", "next", "abort"] as const;
+export type PortConflictAction = (typeof PORT_CONFLICT_ACTIONS)[number];
+
+// px run --port-conflict: settle conflicts this way instead of asking
+let conflictAction: PortConflictAction | undefined;
+
+export function setPortConflictAction(action: PortConflictAction | undefined): void {
+    conflictAction = action;
+}
+
+// A process listening on a port
+export interface PortOwner {
+    pid: number;
+    command: string;
+}
+
+// Check whether a port can be bound
+export function isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+        const server = createServer();
+        server.once("error", () => resolve(false));
+        server.once("listening", () => server.close(() => resolve(true)));
+        server.listen(port);
+    });
+}
+
+// Find the first free port after the given one
+export async function findFreePort(
+    from: number,
+    tries: number = 100
+): Promise<number | null> {
+    for (let port = from + 1; port <= Math.min(from + tries, 65535); port++) {
+        if (await isPortFree(port)) {
+            return port;
+        }
+    }
+    return null;
+}
+
+// Read a process's command line from /proc
+function procCommand(pid: number): string {
+    try {
+        return readFileSync(`/proc/${pid}/cmdline`, "utf-8")
+            .split("\0")
+            .filter(Boolean)
+            .join(" ");
+    } catch {
+        return "unknown";
+    }
+}
+
+// Find the owner of a listening socket through /proc/net and /proc/<pid>/fd (Linux)
+function findOwnerInProc(port: number): PortOwner | null {
+    const inodes = new Set<string>();
+    const hexPort = port.toString(16).toUpperCase().padStart(4, "0");
+
+    for (const table of ["/proc/net/tcp", "/proc/net/tcp6"]) {
+        if (!existsSync(table)) continue;
+
+        for (const line of readFileSync(table, "utf-8").split("\n").slice(1)) {
+            const columns = line.trim().split(/\s+/);
+            const [, localAddress, , state] = columns;
+            // State 0A is LISTEN
+            if (localAddress?.endsWith(`:${hexPort}`) && state === "0A") {
+                inodes.add(columns[9]!);
+            }
+        }
+    }
+
+    if (inodes.size === 0) {
+        return null;
+    }
+
+    for (const entry of readdirSync("/proc")) {
+        if (!/^\d+$/.test(entry)) continue;
+
+        let fds: string[];
+        try {
+            fds = readdirSync(`/proc/${entry}/fd`);
+        } catch {
+            continue; // Not ours to look at
+        }
+
+        for (const fd of fds) {
+            try {
+                const link = readlinkSync(`/proc/${entry}/fd/${fd}`);
+                const inode = link.match(/^socket:\[(\d+)\]$/)?.[1];
+                if (inode && inodes.has(inode)) {
+                    const pid = Number(entry);
+                    return { pid, command: procCommand(pid) };
+                }
+            } catch {
+                // fd closed while we were looking
+            }
+        }
+    }
+
+    return null;
+}
+
+// Run a command and return its stdout, or null if it isn't available
+async function tryCommand(cmd: string[]): Promise<string | null> {
+    try {
+        const proc = spawn({ cmd, stdout: "pipe", stderr: "ignore" });
+        const output = await new Response(proc.stdout).text();
+        await proc.exited;
+        return proc.exitCode === 0 ? output : null;
+    } catch {
+        return null;
+    }
+}
+
+// Identify the process holding a port via /proc, falling back to ss and lsof
+export async function findPortOwner(port: number): Promise<PortOwner | null> {
+    if (existsSync("/proc/net/tcp")) {
+        const owner = findOwnerInProc(port);
+        if (owner) return owner;
+    }
+
+    const ss = await tryCommand(["ss", "-ltnpH", `sport = :${port}`]);
+    const ssMatch = ss?.match(/users:\(\("([^"]+)",pid=(\d+)/);
+    if (ssMatch) {
+        return { pid: Number(ssMatch[2]), command: ssMatch[1]! };
+    }
+
+    const lsof = await tryCommand([
+        "lsof",
+        "-nP",
+        `-iTCP:${port}`,
+        "-sTCP:LISTEN",
+        "-Fpc",
+    ]);
+    const lsofPid = lsof?.match(/^p(\d+)$/m)?.[1];
+    if (lsofPid) {
+        const command = lsof!.match(/^c(.+)$/m)?.[1] ?? "unknown";
+        return { pid: Number(lsofPid), command };
+    }
+
+    return null;
+}
+
+// Terminate a process and wait for the port to be released
+async function killOwner(owner: PortOwner, port: number): Promise<boolean> {
+    try {
+        process.kill(owner.pid, "SIGTERM");
+    } catch {
+        return false;
+    }
+
+    for (let i = 0; i < 30; i++) {
+        await Bun.sleep(100);
+        if (await isPortFree(port)) return true;
+    }
+
+    // Still holding on after 3 seconds
+    try {
+        process.kill(owner.pid, "SIGKILL");
+    } catch {
+        // Already gone
+    }
+    await Bun.sleep(200);
+    return isPortFree(port);
+}
+
+// Make sure the port is free, asking the user how to resolve a conflict
+// (unless --port-conflict says). Returns the port to use.
+export async function resolvePortConflict(port: number): Promise<number> {
+    if (await isPortFree(port)) {
+        return port;
+    }
+
+    const owner = await findPortOwner(port);
+    const nextPort = await findFreePort(port);
+
+    console.log(
+        boxen(
+            `🔌 Port ${port} is already in use${
+                owner ? `\n\nHeld by: ${owner.command} (pid ${owner.pid})` : ""
+            }`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "yellow",
+            }
+        )
+    );
+
+    const choices = [
+        ...(owner
+            ? [
+                  {
+                      name: `Kill ${owner.command.split(" ")[0]} (pid ${owner.pid})`,
+                      value: "kill" as const,
+                  },
+              ]
+            : []),
+        ...(nextPort
+            ? [
+                  {
+                      name: `Use the next free port (${nextPort})`,
+                      value: "next" as const,
+                  },
+              ]
+            : []),
+        { name: "Abort", value: "abort" as const },
+    ];
+
+    const choice: PortConflictAction =
+        conflictAction ??
+        (await ask({
+            about: `what to do about port ${port}`,
+            flags: choices.map(({ value }) => `--port-conflict ${value}`),
+            fallback: nextPort
+                ? { value: "next", label: `the next free port (${nextPort})` }
+                : { value: "abort", label: "abort" },
+            prompt: () =>
+                select({
+                    message: "How do you want to continue?",
+                    choices,
+                }),
+        }));
+
+    if (choice === "kill" && owner) {
+        if (await killOwner(owner, port)) {
+            console.log(`✅ Stopped pid ${owner.pid}, port ${port} is free\n`);
+            return port;
+        }
+        console.error(`❌ Could not stop pid ${owner.pid}`);
+        process.exit(1);
+    }
+
+    if (choice === "next" && nextPort) {
+        console.log(`✅ Using port ${nextPort}\n`);
+        return nextPort;
+    }
+
+    if (choice === "kill") {
+        console.error(`❌ Can't tell what holds port ${port}, so there's nothing to kill`);
+    } else if (choice === "next") {
+        console.error(`❌ No free port found after ${port}`);
+    } else {
+        console.log("❌ Aborted");
+    }
+    process.exit(1);
+}
+
+// Put back the port an override left in config/app.ts, deleting the file if
+// the override created it and nothing else was added since. Returns whether
+// there was an override.
+export function restorePortOverride(projectRoot: string, created: boolean = false): boolean {
+    const config = readAppConfig(projectRoot);
+    if (restorePort(config) !== "changed") {
+        return false;
+    }
+
+    if (created && config.text === EMPTY_CONFIG) {
+        unlinkSync(config.path);
+    } else {
+        writeFileSync(config.path, config.text);
+    }
+    return true;
+}
+
+// Temporarily set http.port in config/app.ts, since Primate only reads it from
+// there. Returns a function that puts the original port back; if px dies before
+// it runs, the next px run does.
+export function applyPortOverride(projectRoot: string, port: number): () => void {
+    const config = readAppConfig(projectRoot);
+    const created = !config.exists;
+
+    if (overridePort(config, port) !== "changed") {
+        console.warn("⚠️  Could not find where to set the port in config/app.ts");
+        return () => {};
+    }
+
+    mkdirSync(dirname(config.path), { recursive: true });
+    writeFileSync(config.path, config.text);
+
+    let restored = false;
+    const restore = () => {
+        if (restored) return;
+        restored = true;
+        restorePortOverride(projectRoot, created);
+    };
+
+    process.on("exit", restore);
+    onShutdown(restore);
+    return restore;
+}
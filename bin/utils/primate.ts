@@ -1,80 +1,84 @@
 import { spawn } from "bun";
+import { pipeOutput, type OutputOptions } from "./output.ts";
+import { killTree, onShutdown } from "./process.ts";
 
-// Run bunx --bun primate with arguments
+export interface RunPrimateOptions {
+  // Command prefix that launches the primate binary (see packageRunner)
+  runner?: string[];
+  // Stop early when live output matches one of these
+  stopPatterns?: RegExp[];
+  // Abort to stop Primate (and its children) from outside, e.g. on file changes
+  signal?: AbortSignal;
+  // How output is echoed (prefixes, timestamps, filters)
+  output?: Omit<OutputOptions, "onLine">;
+}
+
+// Run primate with arguments, under bunx --bun unless another runner is given
 export async function runPrimate(
   projectRoot: string,
   args: string[],
-  checkForErrors: boolean = true
-): Promise<{ code: number; stdout: string; stderr: string; shouldContinue: boolean }> {
+  options: RunPrimateOptions = {}
+): Promise<{ code: number; stdout: string; stderr: string; aborted: boolean }> {
+  const { runner = ["bunx", "--bun"], stopPatterns = [], signal, output } = options;
+
   const proc = spawn({
-    cmd: ["bunx", "--bun", "primate", ...args],
+    cmd: [...runner, "primate", ...args],
     cwd: projectRoot,
     stdout: "pipe",
     stderr: "pipe",
     stdin: "inherit",
   });
 
-  let stdout = "";
-  let stderr = "";
-  let hasErrors = false;
   let processKilled = false;
 
-  // Stream stdout in real-time
-  const stdoutReader = proc.stdout.getReader();
-  const stderrReader = proc.stderr.getReader();
-  
-  const decoder = new TextDecoder();
+  // Take down bunx and the Primate process it started together
+  const stop = (killSignal: NodeJS.Signals = "SIGTERM") => {
+    if (processKilled) return;
+    processKilled = true;
+    killTree(proc.pid, killSignal);
+  };
 
-  // Read stdout and stderr concurrently
-  const readStreams = Promise.all([
-    (async () => {
-      while (true) {
-        const { done, value } = await stdoutReader.read();
-        if (done) break;
-        const text = decoder.decode(value);
-        stdout += text;
-        process.stdout.write(text);
-        
-        // Check for errors in real-time and kill process if found
-        if (checkForErrors && !processKilled && /Could not resolve\s+["']/i.test(text)) {
-          hasErrors = true;
-          processKilled = true;
-          // Kill the process immediately
-          proc.kill();
-          break;
-        }
-      }
-    })(),
-    (async () => {
-      while (true) {
-        const { done, value } = await stderrReader.read();
-        if (done) break;
-        const text = decoder.decode(value);
-        stderr += text;
-        process.stderr.write(text);
-        
-        // Check for errors in real-time and kill process if found
-        if (checkForErrors && !processKilled && /Could not resolve\s+["']/i.test(text)) {
-          hasErrors = true;
-          processKilled = true;
-          // Kill the process immediately
-          proc.kill();
-          break;
-        }
+  const onAbort = () => stop();
+  signal?.addEventListener("abort", onAbort);
+
+  // Forward Ctrl-C / SIGTERM and wait for Primate to go away before px exits
+  const removeShutdownHook = onShutdown(async (received) => {
+    stop(received);
+    await proc.exited;
+  });
+
+  // Echo output line by line and check each whole line for errors, so a
+  // message split across chunks can't slip past the patterns
+  const pipeline = pipeOutput(proc, {
+    ...output,
+    onLine(line) {
+      if (!processKilled && stopPatterns.some((pattern) => pattern.test(line))) {
+        // Kill the process immediately, but keep reading what it printed last
+        stop();
       }
-    })(),
-  ]);
+    },
+  });
 
-  await readStreams;
-  
   // Wait for process to exit (will be quick if we killed it)
   await proc.exited;
+
+  // Let the pipes drain, unless an orphan is holding them open
+  const drained = await Promise.race([
+    pipeline.done.then(() => true),
+    Bun.sleep(1000).then(() => false),
+  ]);
+  if (!drained) {
+    pipeline.cancel();
+    await pipeline.done;
+  }
+
+  signal?.removeEventListener("abort", onAbort);
+  removeShutdownHook();
   
   return {
     code: proc.exitCode ?? (processKilled ? 1 : 0),
-    stdout,
-    stderr,
-    shouldContinue: false, // Not used anymore
+    stdout: pipeline.stdout,
+    stderr: pipeline.stderr,
+    aborted: signal?.aborted ?? false,
   };
 }
-
@@ -0,0 +1,71 @@
+import { spawnSync } from "bun";
+import { existsSync, readdirSync, readFileSync } from "fs";
+
+type ShutdownHook = (signal: NodeJS.Signals) => void | Promise<void>;
+
+const shutdownHooks = new Set<ShutdownHook>();
+let signalsHandled = false;
+
+// Run cleanup hooks on SIGINT/SIGTERM, then exit with the conventional code.
+// Returns a function that removes the hook again.
+export function onShutdown(hook: ShutdownHook): () => void {
+    shutdownHooks.add(hook);
+
+    if (!signalsHandled) {
+        signalsHandled = true;
+        for (const signal of ["SIGINT", "SIGTERM"] as const) {
+            process.on(signal, async () => {
+                for (const registered of Array.from(shutdownHooks).reverse()) {
+                    try {
+                        await registered(signal);
+                    } catch {
+                        // Keep shutting down
+                    }
+                }
+                process.exit(signal === "SIGINT" ? 130 : 143);
+            });
+        }
+    }
+
+    return () => shutdownHooks.delete(hook);
+}
+
+// List direct children of a process
+function childPids(pid: number): number[] {
+    // Linux exposes children per thread in /proc
+    const taskDir = `/proc/${pid}/task`;
+    if (existsSync(taskDir)) {
+        const children: number[] = [];
+        try {
+            for (const tid of readdirSync(taskDir)) {
+                const list = readFileSync(`${taskDir}/${tid}/children`, "utf-8");
+                children.push(...list.split(/\s+/).filter(Boolean).map(Number));
+            }
+        } catch {
+            // Process exited while we were looking
+        }
+        return children;
+    }
+
+    // Elsewhere, ask ps for the whole table
+    const proc = spawnSync({ cmd: ["ps", "-A", "-o", "pid=,ppid="] });
+    return proc.stdout
+        .toString()
+        .split("\n")
+        .map((line) => line.trim().split(/\s+/).map(Number))
+        .filter(([, ppid]) => ppid === pid)
+        .map(([child]) => child!);
+}
+
+// Signal a process and all of its descendants, deepest first, so that
+// bunx/npx wrappers don't leave an orphaned Primate behind
+export function killTree(pid: number, signal: NodeJS.Signals = "SIGTERM"): void {
+    for (const child of childPids(pid)) {
+        killTree(child, signal);
+    }
+    try {
+        process.kill(pid, signal);
+    } catch {
+        // Already gone
+    }
+}
@@ -1,13 +1,28 @@
 import { existsSync, readFileSync } from "fs";
-import { join, dirname } from "path";
+import { join, dirname, relative } from "path";
+import { configuredPort, readAppConfig } from "./app-config.ts";
 
-// Find the nearest package.json directory by walking up from CWD
+// A workspace (monorepo) the Primate app is a member of
+export interface Workspace {
+  // Directory holding the workspace's lockfile
+  root: string;
+  // The Primate app package inside it
+  packageDir: string;
+  packageName?: string;
+}
+
+// Find the Primate app package by walking up from CWD: the nearest package.json
+// next to a config/app.ts, otherwise the nearest package.json
 export function findProjectRoot(startDir: string): string {
   let currentDir = startDir;
+  let nearestPackage: string | null = null;
   
   while (currentDir !== "/") {
     if (existsSync(join(currentDir, "package.json"))) {
-      return currentDir;
+      if (existsSync(join(currentDir, "config", "app.ts"))) {
+        return currentDir;
+      }
+      nearestPackage ??= currentDir;
     }
     const parent = dirname(currentDir);
     if (parent === currentDir) break; // Reached root
@@ -15,53 +30,207 @@ export function findProjectRoot(startDir: string): string {
   }
   
   // If no package.json found, use the starting directory
-  return startDir;
+  return nearestPackage ?? startDir;
+}
+
+// The package.json fields read here, unchecked until used
+interface PackageJson {
+  name?: unknown;
+  packageManager?: unknown;
+  workspaces?: unknown;
 }
 
-// Detect package manager from lockfiles
-export function detectManager(projectRoot: string): "bun" | "pnpm" | "yarn" | "npm" {
-  if (
-    existsSync(join(projectRoot, "bun.lockb")) ||
-    existsSync(join(projectRoot, "bun.lock"))
-  ) {
-    return "bun";
+// Read a package.json, or null if missing, invalid or not an object
+function readPackageJson(dir: string): PackageJson | null {
+  try {
+    const packageJson: unknown = JSON.parse(
+      readFileSync(join(dir, "package.json"), "utf-8")
+    );
+    return typeof packageJson === "object" && packageJson !== null
+      ? packageJson
+      : null;
+  } catch {
+    return null;
   }
-  if (existsSync(join(projectRoot, "pnpm-lock.yaml"))) {
-    return "pnpm";
+}
+
+// The strings in a list of workspace globs, or null if it isn't a list
+function globList(value: unknown): string[] | null {
+  return Array.isArray(value)
+    ? value.filter((pattern): pattern is string => typeof pattern === "string")
+    : null;
+}
+
+// Workspace globs declared in a directory (package.json "workspaces" or pnpm-workspace.yaml)
+function workspacePatterns(dir: string): string[] | null {
+  const pnpmWorkspacePath = join(dir, "pnpm-workspace.yaml");
+  if (existsSync(pnpmWorkspacePath)) {
+    const yaml = readFileSync(pnpmWorkspacePath, "utf-8");
+    const packagesBlock = yaml.match(/^packages:\s*\n((?:\s+-.*\n?)*)/m)?.[1] ?? "";
+    return packagesBlock
+      .split("\n")
+      .map((line) => line.replace(/^\s*-\s*/, "").replace(/['"]/g, "").trim())
+      .filter(Boolean);
   }
-  if (existsSync(join(projectRoot, "yarn.lock"))) {
-    return "yarn";
+
+  const workspaces = readPackageJson(dir)?.workspaces;
+  if (typeof workspaces === "object" && workspaces !== null && "packages" in workspaces) {
+    return globList(workspaces.packages); // Yarn classic object form
   }
-  if (
-    existsSync(join(projectRoot, "package-lock.json")) ||
-    existsSync(join(projectRoot, "npm-shrinkwrap.json"))
-  ) {
-    return "npm";
+  return globList(workspaces);
+}
+
+// Check a relative path against a workspace glob ("apps/*", "packages/**")
+function matchesWorkspaceGlob(path: string, pattern: string): boolean {
+  const source = pattern
+    .replace(/^\.\//, "")
+    .replace(/\/$/, "")
+    .split("/")
+    .map((segment) =>
+      segment === "**"
+        ? ".*"
+        : segment.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")
+    )
+    .join("/");
+  return new RegExp(`^${source}$`).test(path);
+}
+
+// Find the workspace the project belongs to, if it is a member of one
+export function findWorkspace(projectRoot: string): Workspace | null {
+  let currentDir = dirname(projectRoot);
+
+  while (currentDir !== dirname(currentDir)) {
+    const patterns = workspacePatterns(currentDir);
+    if (patterns) {
+      const path = relative(currentDir, projectRoot);
+      const included = patterns.filter((p) => !p.startsWith("!"));
+      const excluded = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+      const isMember =
+        included.some((p) => matchesWorkspaceGlob(path, p)) &&
+        !excluded.some((p) => matchesWorkspaceGlob(path, p));
+
+      return isMember
+        ? {
+            root: currentDir,
+            packageDir: projectRoot,
+            packageName: packageName(projectRoot),
+          }
+        : null;
+    }
+    currentDir = dirname(currentDir);
   }
-  // Default fallback
-  return "npm";
+
+  return null;
 }
 
-// Detect port from config/app.ts
-export function detectPort(projectRoot: string): number {
-  const configPath = join(projectRoot, "config", "app.ts");
-  
-  if (!existsSync(configPath)) {
-    return 6161; // Default port
+export type PackageManager = "bun" | "pnpm" | "yarn" | "npm";
+
+export const PACKAGE_MANAGERS: PackageManager[] = ["bun", "pnpm", "yarn", "npm"];
+
+// Lockfiles and the manager that writes them, in order of precedence
+export const LOCKFILES: [string, PackageManager][] = [
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+  ["npm-shrinkwrap.json", "npm"],
+];
+
+// The detected package manager and the signal that decided it
+export interface ManagerInfo {
+  manager: PackageManager;
+  // Version pinned by the packageManager field, if any
+  version?: string;
+  source: "packageManager" | "lockfile" | "default";
+  // Directory the deciding signal was found in
+  dir: string;
+  // Lockfiles present in that directory
+  lockfiles: string[];
+}
+
+// The "name" field of a package.json, if it's a string
+function packageName(dir: string): string | undefined {
+  const name = readPackageJson(dir)?.name;
+  return typeof name === "string" ? name : undefined;
+}
+
+// Parse the "packageManager" field ("pnpm@9.1.0+sha512.abc" -> pnpm, 9.1.0)
+export function packageManagerField(
+  dir: string
+): { manager: PackageManager; version?: string } | null {
+  const field = readPackageJson(dir)?.packageManager;
+  if (typeof field !== "string") {
+    return null;
   }
-  
-  try {
-    const configContent = readFileSync(configPath, "utf-8");
-    const portMatch = configContent.match(/port:\s*(\d+)/);
-    
-    if (portMatch && portMatch[1]) {
-      return parseInt(portMatch[1], 10);
+
+  const [name, version] = field.split("@");
+  if (!PACKAGE_MANAGERS.includes(name as PackageManager)) {
+    return null;
+  }
+  return {
+    manager: name as PackageManager,
+    version: version?.split("+")[0] || undefined,
+  };
+}
+
+// Lockfiles present in a directory
+export function findLockfiles(dir: string): string[] {
+  return LOCKFILES.map(([file]) => file).filter((file) =>
+    existsSync(join(dir, file))
+  );
+}
+
+// Detect the package manager: the packageManager field, then lockfiles, in the
+// project and then its workspace root
+export function detectManagerInfo(projectRoot: string): ManagerInfo {
+  const workspace = findWorkspace(projectRoot);
+  const dirs = workspace ? [projectRoot, workspace.root] : [projectRoot];
+
+  for (const dir of dirs) {
+    const field = packageManagerField(dir);
+    if (field) {
+      return { ...field, source: "packageManager", dir, lockfiles: findLockfiles(dir) };
     }
-  } catch {
-    // If reading fails, return default
-    return 6161;
   }
-  
-  return 6161; // Default port if not found in config
+
+  for (const dir of dirs) {
+    const lockfiles = findLockfiles(dir);
+    if (lockfiles.length > 0) {
+      const manager = LOCKFILES.find(([file]) => file === lockfiles[0])![1];
+      return { manager, source: "lockfile", dir, lockfiles };
+    }
+  }
+
+  // Default fallback
+  return { manager: "npm", source: "default", dir: projectRoot, lockfiles: [] };
+}
+
+// Detect package manager, see detectManagerInfo
+export function detectManager(projectRoot: string): PackageManager {
+  return detectManagerInfo(projectRoot).manager;
+}
+
+// Lockfiles that belong to a different manager than the detected one
+export function staleLockfiles(info: ManagerInfo): string[] {
+  return info.lockfiles.filter(
+    (file) => LOCKFILES.find(([lockfile]) => lockfile === file)![1] !== info.manager
+  );
+}
+
+// Explain how the package manager was chosen ("pnpm@9.1.0 (from packageManager)")
+export function describeManager(info: ManagerInfo): string {
+  const name = info.version ? `${info.manager}@${info.version}` : info.manager;
+  const reasons: Record<ManagerInfo["source"], string> = {
+    packageManager: "from packageManager in package.json",
+    lockfile: `from ${info.lockfiles[0]}`,
+    default: "no packageManager field or lockfile found",
+  };
+  return `${name} (${reasons[info.source]})`;
+}
+
+// Detect port from config/app.ts
+export function detectPort(projectRoot: string): number {
+  return configuredPort(readAppConfig(projectRoot)) ?? 6161; // Primate's default
 }
 
@@ -0,0 +1,74 @@
+import boxen from "boxen";
+
+// px's global --yes and --non-interactive flags
+export interface PromptOptions {
+    // Answer every question with its default
+    yes?: boolean;
+    // Never ask; fail instead, naming the flags that answer the question
+    nonInteractive?: boolean;
+}
+
+// How px answers the questions it would prompt for:
+// - ask: prompt on the terminal
+// - defaults: --yes, take each question's default
+// - never: --non-interactive, or stdin isn't a terminal; fail instead
+export type PromptMode = "ask" | "defaults" | "never";
+
+let options: PromptOptions = {};
+
+export function setPromptOptions(next: PromptOptions): void {
+    options = next;
+}
+
+export function promptMode(): PromptMode {
+    if (options.yes) return "defaults";
+    if (options.nonInteractive || !process.stdin.isTTY) return "never";
+    return "ask";
+}
+
+// Why px won't prompt, for error messages
+export function whyNotAsking(): string {
+    if (options.yes) return "--yes was passed";
+    return options.nonInteractive
+        ? "--non-interactive was passed"
+        : "stdin isn't a terminal";
+}
+
+// A question px asks unless a flag already answered it
+export interface Question<T> {
+    // What px needs to know, e.g. "which framework to set shadcn/ui up for"
+    about: string;
+    // Flags that answer it, e.g. ["--framework react", "--framework svelte"]
+    flags: string[];
+    // The answer --yes picks, and how to name it
+    fallback: { value: T; label: string };
+    prompt(): Promise<T>;
+}
+
+// Answer a question by prompting, or with its default under --yes. When px
+// can't prompt, exit with the flags that answer it.
+export async function ask<T>(question: Question<T>): Promise<T> {
+    const mode = promptMode();
+    if (mode === "ask") return question.prompt();
+    if (mode === "defaults") {
+        console.log(`👉 Using ${question.fallback.label} (--yes)`);
+        return question.fallback.value;
+    }
+
+    console.error(
+        boxen(
+            `❌ px needs to know ${question.about},\n   but can't ask: ${whyNotAsking()}\n\nPass${
+                question.flags.length > 1 ? " one of" : ""
+            }:\n${question.flags.map((flag) => `  ${flag}`).join("\n")}\n\nor --yes to use ${
+                question.fallback.label
+            }.`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "red",
+            }
+        )
+    );
+    process.exit(1);
+}
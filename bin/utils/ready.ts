@@ -0,0 +1,50 @@
+import { spawn } from "bun";
+
+export interface WaitForReadyOptions {
+    // Give up after this long (default: keep polling until aborted)
+    timeoutMs?: number;
+    intervalMs?: number;
+    signal?: AbortSignal;
+}
+
+// Poll a URL until the server answers without a 5xx. Resolves with the time it
+// took in milliseconds, or null on timeout or abort.
+export async function waitForReady(
+    url: string,
+    options: WaitForReadyOptions = {}
+): Promise<number | null> {
+    const { timeoutMs = Infinity, intervalMs = 250, signal } = options;
+    const startedAt = Date.now();
+
+    while (!signal?.aborted && Date.now() - startedAt < timeoutMs) {
+        try {
+            const response = await fetch(url, {
+                redirect: "manual",
+                signal: AbortSignal.timeout(2000),
+            });
+            if (response.status < 500) {
+                return Date.now() - startedAt;
+            }
+        } catch {
+            // Not listening yet
+        }
+        await Bun.sleep(intervalMs);
+    }
+
+    return null;
+}
+
+// Open a URL in the default browser
+export function openBrowser(url: string): void {
+    const commands: Record<string, string[]> = {
+        darwin: ["open", url],
+        win32: ["cmd", "/c", "start", "", url],
+    };
+    const cmd = commands[process.platform] ?? ["xdg-open", url];
+
+    try {
+        spawn({ cmd, stdout: "ignore", stderr: "ignore" });
+    } catch {
+        console.log(`⚠️  Could not open a browser, visit ${url}`);
+    }
+}
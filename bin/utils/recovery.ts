@@ -0,0 +1,179 @@
+import boxen from "boxen";
+import type { InstallOptions } from "./policy.ts";
+import type { detectManager } from "./project.ts";
+import {
+    applyRemediations,
+    isActionable,
+    matchRules,
+    type Rule,
+} from "./rules.ts";
+import { recordAttempt, recordRule, setOutcome } from "./report.ts";
+
+export const MAX_ATTEMPTS = 5;
+
+// One launch of Primate, as seen by the recovery loop
+export interface LaunchResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+    // Port Primate was started on
+    port: number;
+    // Time until Primate answered HTTP requests, null if it never did or wasn't asked
+    readyMs: number | null;
+    // Gave up waiting for Primate to become ready
+    timedOut: boolean;
+}
+
+export interface RecoveryOptions {
+    projectRoot: string;
+    manager: ReturnType<typeof detectManager>;
+    rules: Rule[];
+    install: InstallOptions;
+    // Start Primate once, stopping it early when live output matches stopPatterns
+    launch(attempt: number, stopPatterns: RegExp[]): Promise<LaunchResult>;
+    // Called after remediations ran, e.g. to move to the port a conflict was resolved to
+    onRemediated?(applied: { port?: number; changed: boolean }): void;
+}
+
+export type RecoveryOutcome =
+    | "success"
+    | "failed"
+    | "unresolved"
+    | "not-ready"
+    | "max-attempts"
+    | "dry-run";
+
+// Draw a box for each rule that fired
+export function printMatches(matches: ReturnType<typeof matchRules>): void {
+    for (const { match } of matches) {
+        console.log(
+            boxen(match.message, {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "yellow",
+            })
+        );
+    }
+}
+
+// Add an attempt and the rules it triggered to the run report
+export function reportAttempt(
+    attempt: number,
+    startedAt: number,
+    result: LaunchResult,
+    matches: ReturnType<typeof matchRules>
+): void {
+    const remediations = matches.flatMap(({ match }) => match.remediations);
+
+    recordAttempt({
+        attempt,
+        port: result.port,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        exitCode: result.code,
+        readyMs: result.readyMs,
+        rules: matches.map(({ rule }) => rule.name),
+        missingPackages: remediations.flatMap((remediation) =>
+            remediation.type === "install" ? remediation.packages ?? [] : []
+        ),
+        stdout: result.stdout,
+        stderr: result.stderr,
+    });
+
+    for (const { rule, match } of matches) {
+        recordRule(rule.name, attempt, match.remediations);
+    }
+}
+
+// Launch Primate, remediating what the rules recognise and retrying up to
+// MAX_ATTEMPTS times. Returns how the last attempt ended; the caller decides
+// what that means for its exit code.
+export async function runWithRecovery(
+    options: RecoveryOptions
+): Promise<{ outcome: RecoveryOutcome; result: LaunchResult }> {
+    const { projectRoot, manager, rules, install } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        if (attempt > 1) {
+            console.log(`\n🔄 Retry attempt ${attempt}/${MAX_ATTEMPTS}\n`);
+        }
+
+        const startedAt = Date.now();
+        const result = await options.launch(
+            attempt,
+            // Only stop early on errors if we have retries left
+            attempt < MAX_ATTEMPTS ? rules.map((rule) => rule.test) : []
+        );
+
+        if (result.timedOut) {
+            reportAttempt(attempt, startedAt, result, []);
+            setOutcome("not-ready");
+            return { outcome: "not-ready", result };
+        }
+
+        const matches = matchRules(rules, {
+            projectRoot,
+            stdout: result.stdout,
+            stderr: result.stderr,
+            port: result.port,
+        });
+        reportAttempt(attempt, startedAt, result, matches);
+
+        // Nothing we know how to fix - the exit code tells the rest
+        if (matches.length === 0) {
+            if (install.dryRun) {
+                console.log("\n🔍 Dry run: nothing to install");
+                setOutcome("dry-run");
+                return { outcome: "dry-run", result };
+            }
+            return { outcome: result.code === 0 ? "success" : "failed", result };
+        }
+
+        printMatches(matches);
+
+        const remediations = matches.flatMap(({ match }) => match.remediations);
+
+        // Show what a retry would be preceded by, and stop
+        if (install.dryRun) {
+            await applyRemediations(remediations, projectRoot, manager, install);
+            setOutcome("dry-run");
+            return { outcome: "dry-run", result };
+        }
+
+        // Hints only - retrying would fail the same way
+        if (!isActionable(remediations)) {
+            await applyRemediations(remediations, projectRoot, manager, install);
+            setOutcome("unresolved");
+            return { outcome: "unresolved", result };
+        }
+
+        if (attempt === MAX_ATTEMPTS) {
+            console.error(
+                boxen(`❌ Max attempts (${MAX_ATTEMPTS}) reached`, {
+                    padding: 1,
+                    margin: 1,
+                    borderStyle: "round",
+                    borderColor: "red",
+                })
+            );
+            setOutcome("max-attempts");
+            return { outcome: "max-attempts", result };
+        }
+
+        // Remediate and retry
+        const applied = await applyRemediations(
+            remediations,
+            projectRoot,
+            manager,
+            install
+        );
+        options.onRemediated?.(applied);
+        if (!applied.changed) {
+            console.log("\n⏹️  Nothing was fixed, so a retry would fail the same way");
+            setOutcome("unresolved");
+            return { outcome: "unresolved", result };
+        }
+        console.log("\n🔄 Retrying Primate...\n");
+    }
+}
@@ -0,0 +1,198 @@
+import { readdirSync, unlinkSync, writeFileSync, writeSync } from "fs";
+import { join } from "path";
+import { changeMode } from "./changes.ts";
+import { stateDir } from "./state.ts";
+
+export const REPORTS_DIR = join(".px", "runs");
+
+// How many reports to keep in .px/runs
+const MAX_REPORTS = 50;
+
+// Lines of output kept per attempt
+const OUTPUT_TAIL_LINES = 40;
+
+export type RunOutcome =
+    | "success"
+    | "failed"
+    | "max-attempts"
+    | "unresolved"
+    | "not-ready"
+    | "interrupted"
+    | "dry-run";
+
+export interface InstallRecord {
+    command: string[];
+    packages: string[];
+    exitCode: number;
+    durationMs: number;
+}
+
+export interface AttemptRecord {
+    attempt: number;
+    port: number;
+    startedAt: string;
+    durationMs: number;
+    exitCode: number;
+    // Time until Primate answered HTTP requests, null if it never did
+    readyMs: number | null;
+    rules: string[];
+    missingPackages: string[];
+    output: string;
+}
+
+export interface RunReport {
+    command: string;
+    args: string[];
+    projectRoot: string;
+    manager: string;
+    runtime: string;
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+    attempts: AttemptRecord[];
+    missingPackages: string[];
+    rules: { name: string; attempt: number; remediations: string[] }[];
+    installs: InstallRecord[];
+    outcome?: RunOutcome;
+    exitCode?: number;
+}
+
+// The report of the session in progress, if any
+let activeReport: RunReport | null = null;
+
+// With --report json, stdout carries nothing but the report: px's own output
+// and Primate's go to stderr instead. Call before printing anything.
+export function reserveStdoutForReport(): void {
+    const toStderr = (...data: unknown[]) => console.error(...data);
+    console.log = toStderr;
+    console.info = toStderr;
+    console.debug = toStderr;
+    process.stdout.write = process.stderr.write.bind(process.stderr);
+}
+
+// Start recording a session; the report is written when the process exits
+export function startReport(
+    report: Pick<RunReport, "command" | "args" | "projectRoot" | "manager" | "runtime">,
+    print?: "json"
+): void {
+    activeReport = {
+        ...report,
+        startedAt: new Date().toISOString(),
+        attempts: [],
+        missingPackages: [],
+        rules: [],
+        installs: [],
+    };
+
+    // Every exit path goes through here, including process.exit() deep in installs
+    process.on("exit", (code) => finishReport(code, print));
+}
+
+// Record one launch of Primate
+export function recordAttempt(
+    record: Omit<AttemptRecord, "output" | "startedAt"> & {
+        startedAt: number;
+        stdout: string;
+        stderr: string;
+    }
+): void {
+    if (!activeReport) return;
+
+    const { stdout, stderr, startedAt, ...rest } = record;
+    const output = (stdout + "\n" + stderr)
+        .trim()
+        .split("\n")
+        .slice(-OUTPUT_TAIL_LINES)
+        .join("\n");
+
+    activeReport.attempts.push({
+        ...rest,
+        startedAt: new Date(startedAt).toISOString(),
+        output,
+    });
+    recordMissingPackages(record.missingPackages);
+}
+
+// Record packages found missing, by the pre-flight scan or from output
+export function recordMissingPackages(packages: string[]): void {
+    if (!activeReport) return;
+
+    for (const name of packages) {
+        if (!activeReport.missingPackages.includes(name)) {
+            activeReport.missingPackages.push(name);
+        }
+    }
+}
+
+// Record a rule that fired and what it asked for
+export function recordRule(
+    name: string,
+    attempt: number,
+    remediations: { type: string }[]
+): void {
+    activeReport?.rules.push({
+        name,
+        attempt,
+        remediations: remediations.map((remediation) => remediation.type),
+    });
+}
+
+// Record a package manager invocation
+export function recordInstall(record: InstallRecord): void {
+    activeReport?.installs.push(record);
+}
+
+// Set the outcome explicitly when the exit code alone doesn't tell the story
+export function setOutcome(outcome: RunOutcome): void {
+    if (activeReport) {
+        activeReport.outcome = outcome;
+    }
+}
+
+// Remove the oldest reports beyond MAX_REPORTS
+function pruneReports(reportsDir: string): void {
+    const reports = readdirSync(reportsDir)
+        .filter((file) => file.endsWith(".json"))
+        .sort();
+
+    for (const file of reports.slice(0, -MAX_REPORTS)) {
+        unlinkSync(join(reportsDir, file));
+    }
+}
+
+// Write the report to .px/runs (synchronously - we're inside the exit handler),
+// except in a dry run
+function finishReport(exitCode: number, print?: "json"): void {
+    const report = activeReport;
+    if (!report || report.finishedAt) return;
+
+    const finishedAt = new Date();
+    report.finishedAt = finishedAt.toISOString();
+    report.durationMs = finishedAt.getTime() - Date.parse(report.startedAt);
+    report.exitCode = exitCode;
+    report.outcome ??=
+        exitCode === 0
+            ? "success"
+            : exitCode === 130 || exitCode === 143
+              ? "interrupted"
+              : "failed";
+
+    const json = JSON.stringify(report, null, 2);
+
+    if (changeMode() !== "dry-run") {
+        try {
+            const reportsDir = stateDir(report.projectRoot, REPORTS_DIR);
+            writeFileSync(
+                join(reportsDir, `${report.startedAt.replace(/[:.]/g, "-")}.json`),
+                json + "\n"
+            );
+            pruneReports(reportsDir);
+        } catch {
+            // A read-only project shouldn't turn into a failed run
+        }
+    }
+
+    if (print === "json") {
+        writeSync(1, json + "\n");
+    }
+}
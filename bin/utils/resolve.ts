@@ -0,0 +1,238 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { builtinModules } from "module";
+import { basename, dirname, extname, join, relative, resolve } from "path";
+import { jsonField, jsonKeys } from "./json.ts";
+
+export type SpecifierKind =
+    | "package"
+    | "relative"
+    | "absolute"
+    | "builtin"
+    | "alias"
+    | "url";
+
+export type ResolvedSpecifier =
+    | { kind: "package"; name: string }
+    | { kind: Exclude<SpecifierKind, "package"> };
+
+// A local file import that could not be found
+export interface MissingFile {
+    specifier: string;
+    importer?: string;
+    suggestions: string[];
+}
+
+// Rough shape of a package name, enough to tell packages from aliases like $lib or ~/
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+// Strip comments and trailing commas from JSONC (tsconfig.json), leaving strings intact
+function parseJsonc(text: string): unknown {
+    let output = "";
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!;
+        const next = text[i + 1];
+
+        if (inString) {
+            output += char;
+            if (char === "\\") {
+                output += next ?? "";
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            output += char;
+        } else if (char === "/" && next === "/") {
+            while (i < text.length && text[i] !== "\n") i++;
+            output += "\n";
+        } else if (char === "/" && next === "*") {
+            i = text.indexOf("*/", i + 2);
+            if (i === -1) break;
+            i++;
+        } else {
+            output += char;
+        }
+    }
+
+    return JSON.parse(output.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+// Collect compilerOptions.paths keys from a tsconfig, following relative "extends"
+function tsconfigPaths(configPath: string, seen = new Set<string>()): string[] {
+    if (!existsSync(configPath) || seen.has(configPath)) {
+        return [];
+    }
+    seen.add(configPath);
+
+    try {
+        const tsconfig = parseJsonc(readFileSync(configPath, "utf-8"));
+        const paths = jsonField(jsonField(tsconfig, "compilerOptions"), "paths");
+        const keys = jsonKeys(paths);
+
+        // "extends" is a path or a list of them
+        const extended = jsonField(tsconfig, "extends");
+        const parents = Array.isArray(extended) ? extended : [extended];
+        for (const parent of parents) {
+            if (typeof parent === "string" && parent.startsWith(".")) {
+                const parentPath = resolve(dirname(configPath), parent);
+                keys.push(
+                    ...tsconfigPaths(
+                        parentPath.endsWith(".json")
+                            ? parentPath
+                            : `${parentPath}.json`,
+                        seen
+                    )
+                );
+            }
+        }
+
+        return keys;
+    } catch {
+        return [];
+    }
+}
+
+// Load import aliases from tsconfig/jsconfig paths and package.json imports
+export function loadAliases(projectRoot: string): string[] {
+    const aliases = [
+        ...tsconfigPaths(join(projectRoot, "tsconfig.json")),
+        ...tsconfigPaths(join(projectRoot, "jsconfig.json")),
+    ];
+
+    const packageJsonPath = join(projectRoot, "package.json");
+    if (existsSync(packageJsonPath)) {
+        try {
+            const packageJson: unknown = JSON.parse(
+                readFileSync(packageJsonPath, "utf-8")
+            );
+            aliases.push(...jsonKeys(jsonField(packageJson, "imports")));
+        } catch {
+            // Invalid package.json, no aliases from it
+        }
+    }
+
+    return Array.from(new Set(aliases));
+}
+
+// Check whether a specifier matches one of the alias patterns ("@/*", "~lib", "#db")
+function isAliased(specifier: string, aliases: string[]): boolean {
+    return aliases.some((alias) => {
+        const star = alias.indexOf("*");
+        if (star === -1) {
+            return specifier === alias;
+        }
+        return (
+            specifier.startsWith(alias.slice(0, star)) &&
+            specifier.endsWith(alias.slice(star + 1))
+        );
+    });
+}
+
+// Get the package name of a bare specifier ("lodash/fp" -> "lodash")
+export function packageNameOf(specifier: string): string {
+    const parts = specifier.split("/");
+    if (specifier.startsWith("@")) {
+        return parts.slice(0, 2).join("/");
+    }
+    return parts[0] ?? specifier;
+}
+
+// Turn an import specifier into the npm package it needs, if any
+export function resolveSpecifier(
+    specifier: string,
+    aliases: string[] = []
+): ResolvedSpecifier {
+    if (/^\.\.?(\/|$)/.test(specifier)) {
+        return { kind: "relative" };
+    }
+    if (specifier.startsWith("/")) {
+        return { kind: "absolute" };
+    }
+    if (/^(node|bun):/.test(specifier)) {
+        return { kind: "builtin" };
+    }
+    // Other protocol imports such as https:// or data:
+    if (/^[a-z][a-z0-9+.-]*:/i.test(specifier)) {
+        return { kind: "url" };
+    }
+    if (specifier.startsWith("#") || isAliased(specifier, aliases)) {
+        return { kind: "alias" };
+    }
+
+    const name = packageNameOf(specifier);
+    if (builtinModules.includes(name) || name === "bun") {
+        return { kind: "builtin" };
+    }
+    // Not a valid package name, so it must be a bundler alias we don't know about
+    if (!PACKAGE_NAME.test(name)) {
+        return { kind: "alias" };
+    }
+
+    return { kind: "package", name };
+}
+
+// Levenshtein distance between two strings
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0]!;
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j]!;
+            row[j] = Math.min(
+                row[j]! + 1,
+                row[j - 1]! + 1,
+                previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            previous = current;
+        }
+    }
+
+    return row[b.length]!;
+}
+
+// Strip the extension from a file name ("Button.svelte" -> "Button")
+function stem(fileName: string): string {
+    return basename(fileName, extname(fileName));
+}
+
+// Suggest existing files with names close to a relative import that failed to resolve
+export function suggestFiles(
+    projectRoot: string,
+    specifier: string,
+    importer?: string
+): string[] {
+    const fromDir = importer ? dirname(importer) : projectRoot;
+    const target = resolve(fromDir, specifier);
+
+    // Search the closest directory that actually exists
+    let searchDir = dirname(target);
+    while (!existsSync(searchDir) && searchDir.startsWith(projectRoot)) {
+        searchDir = dirname(searchDir);
+    }
+    if (!searchDir.startsWith(projectRoot)) {
+        return [];
+    }
+
+    const wanted = stem(target).toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+
+    const candidates = readdirSync(searchDir, { withFileTypes: true })
+        .filter((entry) => !entry.name.startsWith("."))
+        .map((entry) => ({
+            path: join(searchDir, entry.name),
+            distance: editDistance(wanted, stem(entry.name).toLowerCase()),
+        }))
+        .filter((candidate) => candidate.distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, 3);
+
+    return candidates.map((candidate) => {
+        const path = relative(fromDir, candidate.path);
+        return path.startsWith(".") ? path : `./${path}`;
+    });
+}
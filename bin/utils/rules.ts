@@ -0,0 +1,549 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { isAbsolute, relative, resolve, sep } from "path";
+import { CONFIG_FILE, loadPxConfig, type RuleConfig } from "./config.ts";
+import { classifyPackages, describeClassification } from "./imports.ts";
+import {
+    findBundlerErrors,
+    findMissingFiles,
+    findMissingPackages,
+    installAll,
+    installPackages,
+} from "./packages.ts";
+import { vetPackages, type InstallOptions } from "./policy.ts";
+import { resolvePortConflict } from "./port.ts";
+import type { detectManager } from "./project.ts";
+import { loadAliases, resolveSpecifier } from "./resolve.ts";
+
+// What a rule wants done about the output it matched
+export type Remediation =
+    // Omit packages for a plain install. Trusted packages come from px's own
+    // tables rather than from output, so they skip the allowlist.
+    | { type: "install"; packages?: string[]; dev?: boolean; trusted?: boolean }
+    | { type: "add"; module: string }
+    | { type: "edit"; file: string; search: string | RegExp; replace: string }
+    | { type: "hint"; message: string }
+    | { type: "port"; port: number }; // Resolve a port conflict before retrying
+
+export interface RuleContext {
+    projectRoot: string;
+    stdout: string;
+    stderr: string;
+    port: number;
+}
+
+export interface RuleMatch {
+    message: string;
+    remediations: Remediation[];
+}
+
+export interface Rule {
+    name: string;
+    description: string;
+    // Checked against live output so Primate can be stopped as soon as it matches
+    test: RegExp;
+    // Inspect the full output and decide what to do, or null if nothing applies
+    remediate(context: RuleContext): RuleMatch | null;
+}
+
+// Peer packages each Primate frontend needs next to @primate/<name>
+export const FRONTEND_PEERS: Record<string, string[]> = {
+    react: ["react", "react-dom"],
+    svelte: ["svelte"],
+    vue: ["vue"],
+    solid: ["solid-js"],
+    angular: ["@angular/core", "@angular/compiler", "@angular/platform-browser"],
+    htmx: ["htmx-esm"],
+    markdown: ["marked"],
+    handlebars: ["handlebars"],
+};
+
+// Extension of each Primate frontend's views (its default)
+export const FRONTEND_EXTENSIONS: Record<string, string> = {
+    react: ".jsx",
+    svelte: ".svelte",
+    vue: ".vue",
+    solid: ".jsx",
+    angular: ".component.ts",
+    htmx: ".htmx",
+    markdown: ".md",
+    handlebars: ".hbs",
+};
+
+// Primate database drivers
+export const STORE_DRIVERS = ["sqlite", "postgresql", "mysql", "mongodb", "surrealdb"];
+
+// Build a "module not found" pattern for a set of @primate packages
+function missingPrimateModule(names: string[]): RegExp {
+    return new RegExp(
+        `Cannot find (?:module|package)\\s+['"]@primate\\/(${names.join("|")})['"]`,
+        "i"
+    );
+}
+
+export const builtinRules: Rule[] = [
+    {
+        name: "tailwind-setup",
+        description: "Run px add tailwind when @primate/tailwind is missing",
+        test: /Cannot find module\s+['"]@primate\/tailwind['"]/i,
+        remediate({ stdout, stderr }) {
+            if (!this.test.test(stdout + "\n" + stderr)) {
+                return null;
+            }
+            return {
+                message:
+                    "🎨 Detected missing @primate/tailwind\n\nRunning Tailwind setup...",
+                remediations: [
+                    { type: "add", module: "tailwind" },
+                    { type: "install" },
+                ],
+            };
+        },
+    },
+    {
+        name: "primate-frontend",
+        description: "Install a missing @primate frontend with its peers",
+        test: missingPrimateModule(Object.keys(FRONTEND_PEERS)),
+        remediate({ stdout, stderr }) {
+            const match = (stdout + "\n" + stderr).match(this.test);
+            if (!match) {
+                return null;
+            }
+            const frontend = match[1]!.toLowerCase();
+            return {
+                message: `🧩 Detected missing @primate/${frontend}`,
+                remediations: [
+                    {
+                        type: "install",
+                        trusted: true,
+                        packages: [
+                            `@primate/${frontend}`,
+                            ...(FRONTEND_PEERS[frontend] ?? []),
+                        ],
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "store-driver",
+        description: "Install a missing @primate database driver",
+        test: missingPrimateModule(STORE_DRIVERS),
+        remediate({ stdout, stderr }) {
+            const match = (stdout + "\n" + stderr).match(this.test);
+            if (!match) {
+                return null;
+            }
+            const driver = match[1]!.toLowerCase();
+            return {
+                message: `🗄️  Detected missing store driver @primate/${driver}`,
+                remediations: [
+                    {
+                        type: "install",
+                        packages: [`@primate/${driver}`],
+                        trusted: true,
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "port-in-use",
+        description: "Resolve the conflict when Primate's port is taken",
+        test: /EADDRINUSE|address already in use/i,
+        remediate({ stdout, stderr, port }) {
+            const combined = stdout + "\n" + stderr;
+            if (!this.test.test(combined)) {
+                return null;
+            }
+            const reported = combined.match(/EADDRINUSE[^\n]*?:(\d+)/)?.[1];
+            return {
+                message: "🔌 Primate could not bind its port",
+                remediations: [
+                    { type: "port", port: reported ? Number(reported) : port },
+                ],
+            };
+        },
+    },
+    {
+        name: "missing-packages",
+        description: "Install packages reported by \"Could not resolve\"",
+        test: /Could not resolve\s+["']/i,
+        remediate({ projectRoot, stdout, stderr }) {
+            const missingPkgs = findMissingPackages(stdout, stderr, projectRoot);
+            if (missingPkgs.size === 0) {
+                return null;
+            }
+            // Packages only imported from tests, configs or tooling go to devDependencies
+            const { dependencies, devDependencies } = classifyPackages(
+                missingPkgs,
+                missingPkgs.keys()
+            );
+            const remediations: Remediation[] = [];
+            if (dependencies.length > 0) {
+                remediations.push({ type: "install", packages: dependencies });
+            }
+            if (devDependencies.length > 0) {
+                remediations.push({
+                    type: "install",
+                    packages: devDependencies,
+                    dev: true,
+                });
+            }
+            return {
+                message: `⚠️  Found ${missingPkgs.size} missing package(s)\n\n📦 Missing packages:\n${describeClassification(missingPkgs, missingPkgs.keys())}`,
+                remediations,
+            };
+        },
+    },
+    {
+        name: "missing-files",
+        description: "Suggest similarly named files for unresolved local imports",
+        test: /Could not resolve\s+["']\.{1,2}\//i,
+        remediate({ projectRoot, stdout, stderr }) {
+            const missingFiles = findMissingFiles(stdout, stderr, projectRoot);
+            if (missingFiles.length === 0) {
+                return null;
+            }
+            return {
+                message: `📄 Found ${missingFiles.length} unresolved local import(s)`,
+                remediations: missingFiles.map((file) => ({
+                    type: "hint",
+                    message: `❓ ${file.specifier}${
+                        file.importer
+                            ? ` (in ${relative(projectRoot, file.importer)})`
+                            : ""
+                    }${
+                        file.suggestions.length > 0
+                            ? `\n   Did you mean: ${file.suggestions.join(", ")}?`
+                            : ""
+                    }`,
+                })),
+            };
+        },
+    },
+];
+
+// Rules that only apply to primate build and primate serve
+export const buildRules: Rule[] = [
+    {
+        name: "bundler-error",
+        description: "Point at the source of syntax and transform errors in a build",
+        test: /✘ \[ERROR\]|Transform failed|Build failed/i,
+        remediate({ projectRoot, stdout, stderr }) {
+            const errors = findBundlerErrors(stdout, stderr, projectRoot);
+            if (errors.length === 0) {
+                return null;
+            }
+            return {
+                message: `🧱 Build failed with ${errors.length} bundler error(s)`,
+                remediations: errors.map(({ message, location }) => ({
+                    type: "hint",
+                    message: `❌ ${location ? `${location}: ` : ""}${message}`,
+                })),
+            };
+        },
+    },
+    {
+        name: "out-of-memory",
+        description: "Explain how to give the build more memory",
+        test: /JavaScript heap out of memory|Allocation failed/i,
+        remediate({ stdout, stderr }) {
+            if (!this.test.test(stdout + "\n" + stderr)) {
+                return null;
+            }
+            return {
+                message: "💾 The build ran out of memory",
+                remediations: [
+                    {
+                        type: "hint",
+                        message:
+                            "Raise Node's heap limit with NODE_OPTIONS=--max-old-space-size=4096, or build under Bun with --runtime bun",
+                    },
+                ],
+            };
+        },
+    },
+    {
+        name: "unbundled-package",
+        description: "Install packages the built server can't find at runtime",
+        test: /Cannot find (?:module|package)\s+['"](?!\.|\/|@primate\/)/i,
+        remediate({ projectRoot, stdout, stderr }) {
+            const aliases = loadAliases(projectRoot);
+            const packages = new Set<string>();
+
+            for (const match of (stdout + "\n" + stderr).matchAll(
+                /Cannot find (?:module|package)\s+['"]([^'"]+)['"]/gi
+            )) {
+                const resolved = resolveSpecifier(match[1]!, aliases);
+                // @primate packages have rules of their own
+                if (
+                    resolved.kind === "package" &&
+                    !resolved.name.startsWith("@primate/")
+                ) {
+                    packages.add(resolved.name);
+                }
+            }
+            if (packages.size === 0) {
+                return null;
+            }
+            return {
+                message: `📦 The build can't find ${packages.size} package(s) at runtime:\n${Array.from(packages).map((name) => `   ${name}`).join("\n")}`,
+                remediations: [{ type: "install", packages: Array.from(packages) }],
+            };
+        },
+    },
+];
+
+// Turn a rule from px.config.json into a Rule
+function ruleFromConfig(config: RuleConfig): Rule | null {
+    let test: RegExp;
+    try {
+        test = new RegExp(config.match, (config.flags ?? "i").replace("g", ""));
+    } catch (error) {
+        console.warn(
+            `⚠️  Skipping rule "${config.name}" in ${CONFIG_FILE}: ${(error as Error).message}`
+        );
+        return null;
+    }
+
+    return {
+        name: config.name,
+        description: config.description ?? `Project rule from ${CONFIG_FILE}`,
+        test,
+        remediate({ stdout, stderr }) {
+            const match = (stdout + "\n" + stderr).match(test);
+            if (!match) {
+                return null;
+            }
+
+            // Substitute $1, $2, ... with capture groups
+            const fill = (text: string) =>
+                text.replace(/\$(\d)/g, (_, group) => match[Number(group)] ?? "");
+
+            const remediations: Remediation[] = [];
+            if (config.edit) {
+                remediations.push({
+                    type: "edit",
+                    file: fill(config.edit.file),
+                    search: config.edit.regex
+                        ? new RegExp(fill(config.edit.search))
+                        : fill(config.edit.search),
+                    replace: fill(config.edit.replace),
+                });
+            }
+            if (config.add) {
+                remediations.push({ type: "add", module: fill(config.add) });
+            }
+            if (config.install) {
+                remediations.push({
+                    type: "install",
+                    packages: config.install.map(fill),
+                    dev: config.dev,
+                });
+            }
+            if (config.hint) {
+                remediations.push({ type: "hint", message: fill(config.hint) });
+            }
+
+            return {
+                message: `🧭 Rule "${config.name}" matched`,
+                remediations,
+            };
+        },
+    };
+}
+
+// Project rules from px.config.json come first so they can override built-in
+// behavior; command-specific rules (e.g. buildRules) go last
+export function loadRules(projectRoot: string, extra: Rule[] = []): Rule[] {
+    const projectRules = (loadPxConfig(projectRoot).rules ?? [])
+        .map(ruleFromConfig)
+        .filter((rule): rule is Rule => rule !== null);
+
+    return [...projectRules, ...builtinRules, ...extra];
+}
+
+// Run every rule against the output and collect the ones that matched
+export function matchRules(
+    rules: Rule[],
+    context: RuleContext
+): { rule: Rule; match: RuleMatch }[] {
+    const matches: { rule: Rule; match: RuleMatch }[] = [];
+
+    for (const rule of rules) {
+        const match = rule.remediate(context);
+        if (match) {
+            matches.push({ rule, match });
+        }
+    }
+
+    return matches;
+}
+
+// Resolve a file an edit remediation names, or null if it points outside the
+// project: the name comes from project rules and from captured output
+function editTarget(projectRoot: string, file: string): string | null {
+    const target = resolve(projectRoot, file);
+    const path = relative(resolve(projectRoot), target);
+    const outside = path === ".." || path.startsWith(`..${sep}`) || isAbsolute(path);
+    return path === "" || outside ? null : target;
+}
+
+// Check whether remediations will change anything, i.e. whether a retry makes sense
+export function isActionable(remediations: Remediation[]): boolean {
+    return remediations.some((remediation) => remediation.type !== "hint");
+}
+
+// Print what applyRemediations would do, without doing it
+async function describeRemediations(
+    remediations: Remediation[],
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>
+): Promise<void> {
+    for (const remediation of remediations) {
+        switch (remediation.type) {
+            case "hint":
+                console.log(remediation.message);
+                break;
+            case "edit":
+                console.log(
+                    editTarget(projectRoot, remediation.file) === null
+                        ? `⚠️  Would refuse to edit ${remediation.file}: it's outside the project`
+                        : `🔍 Would edit ${remediation.file}`
+                );
+                break;
+            case "add":
+                console.log(`🔍 Would run px add ${remediation.module}`);
+                break;
+            case "install": {
+                if (!remediation.packages) {
+                    console.log(`🔍 Would run ${manager} install`);
+                    break;
+                }
+                const packages = await vetPackages(projectRoot, remediation.packages, {
+                    dryRun: true,
+                    trusted: remediation.trusted,
+                });
+                if (packages.length > 0) {
+                    console.log(
+                        `🔍 Would install${remediation.dev ? " (dev)" : ""}: ${packages.join(", ")}`
+                    );
+                }
+                break;
+            }
+            case "port":
+                console.log(`🔍 Would resolve the conflict on port ${remediation.port}`);
+                break;
+        }
+    }
+}
+
+// Apply remediations: edits, then px add modules, then a merged install step.
+// Returns the port to use next if a port conflict was resolved, and whether
+// anything changed at all: if not (say, every package was declined), a retry
+// would fail the same way.
+export async function applyRemediations(
+    remediations: Remediation[],
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>,
+    options: InstallOptions = {}
+): Promise<{ port?: number; changed: boolean }> {
+    if (options.dryRun) {
+        await describeRemediations(remediations, projectRoot, manager);
+        return { changed: false };
+    }
+    let changed = false;
+
+    for (const remediation of remediations) {
+        if (remediation.type === "hint") {
+            console.log(remediation.message);
+        }
+    }
+    for (const remediation of remediations) {
+        if (remediation.type !== "edit") continue;
+
+        const filePath = editTarget(projectRoot, remediation.file);
+        if (filePath === null) {
+            console.log(`⚠️  ${remediation.file} is outside the project, skipping edit`);
+            continue;
+        }
+        if (!existsSync(filePath)) {
+            console.log(`⚠️  ${remediation.file} not found, skipping edit`);
+            continue;
+        }
+        const content = readFileSync(filePath, "utf-8");
+        const updated = content.replace(remediation.search, remediation.replace);
+        if (updated === content) {
+            console.log(`⚠️  Nothing to change in ${remediation.file}`);
+            continue;
+        }
+        writeFileSync(filePath, updated);
+        console.log(`✅ Updated ${remediation.file}`);
+        changed = true;
+    }
+
+    const modules = new Set<string>();
+    for (const remediation of remediations) {
+        if (remediation.type === "add") modules.add(remediation.module);
+    }
+    if (modules.size > 0) {
+        const { addCommand } = await import("../commands/add.ts");
+        await addCommand(Array.from(modules));
+        changed = true;
+    }
+
+    const packages: { trusted: boolean; dev: boolean; names: Set<string> }[] = [];
+    let plainInstall = false;
+
+    for (const remediation of remediations) {
+        if (remediation.type !== "install") continue;
+        if (!remediation.packages) {
+            plainInstall = true;
+            continue;
+        }
+        const trusted = remediation.trusted ?? false;
+        const dev = remediation.dev ?? false;
+        let group = packages.find((g) => g.trusted === trusted && g.dev === dev);
+        if (!group) {
+            group = { trusted, dev, names: new Set() };
+            packages.push(group);
+        }
+        for (const pkg of remediation.packages) {
+            group.names.add(pkg);
+        }
+    }
+
+    // Vet every group, then install dependencies and dev dependencies in one call each
+    const approved = { deps: new Set<string>(), dev: new Set<string>() };
+    for (const group of packages) {
+        const vetted = await vetPackages(projectRoot, Array.from(group.names), {
+            ...options,
+            trusted: group.trusted,
+        });
+        for (const pkg of vetted) {
+            (group.dev ? approved.dev : approved.deps).add(pkg);
+        }
+    }
+
+    if (approved.deps.size > 0) {
+        await installPackages(projectRoot, Array.from(approved.deps), manager);
+        changed = true;
+    }
+    if (approved.dev.size > 0) {
+        await installPackages(projectRoot, Array.from(approved.dev), manager, true);
+        changed = true;
+    }
+    if (plainInstall) {
+        // Run package manager install to ensure all dependencies are installed
+        await installAll(projectRoot, manager);
+        changed = true;
+    }
+
+    for (const remediation of remediations) {
+        if (remediation.type === "port") {
+            return { port: await resolvePortConflict(remediation.port), changed: true };
+        }
+    }
+
+    return { changed };
+}
@@ -0,0 +1,65 @@
+import { loadPxConfig } from "./config.ts";
+import { packageManagerField, type detectManager } from "./project.ts";
+
+export type Runtime = "bun" | "node";
+
+export const RUNTIMES: Runtime[] = ["bun", "node"];
+
+// The runtime Primate will be launched under, and what decided it
+export interface RuntimeChoice {
+    runtime: Runtime;
+    source: "flag" | "px.config.json" | "packageManager" | "package manager";
+}
+
+// Pick the runtime: --runtime flag, then px.config.json, then packageManager, then the detected manager
+export function resolveRuntime(
+    projectRoot: string,
+    manager: ReturnType<typeof detectManager>,
+    flag?: string
+): RuntimeChoice {
+    if (flag) {
+        if (!RUNTIMES.includes(flag as Runtime)) {
+            console.error(
+                `❌ Unknown runtime: ${flag} (expected ${RUNTIMES.join(" or ")})`
+            );
+            process.exit(1);
+        }
+        return { runtime: flag as Runtime, source: "flag" };
+    }
+
+    const configured = loadPxConfig(projectRoot).runtime;
+    if (configured && RUNTIMES.includes(configured)) {
+        return { runtime: configured, source: "px.config.json" };
+    }
+
+    const field = packageManagerField(projectRoot);
+    if (field) {
+        return {
+            runtime: field.manager === "bun" ? "bun" : "node",
+            source: "packageManager",
+        };
+    }
+
+    return {
+        runtime: manager === "bun" ? "bun" : "node",
+        source: "package manager",
+    };
+}
+
+// Command prefix that runs a locally installed binary under the chosen runtime
+export function packageRunner(
+    runtime: Runtime,
+    manager: ReturnType<typeof detectManager>
+): string[] {
+    if (runtime === "bun") {
+        return ["bunx", "--bun"];
+    }
+
+    const runners: Record<typeof manager, string[]> = {
+        bun: ["bunx"], // Without --bun, bunx respects the binary's node shebang
+        pnpm: ["pnpm", "exec"],
+        yarn: ["yarn"],
+        npm: ["npx"],
+    };
+    return runners[manager];
+}
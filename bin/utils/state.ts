@@ -0,0 +1,27 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Lines that keep what px writes under .px (run reports, caches, px add
+// history) out of git. Modules in .px/modules are the project's own code.
+const STATE_GITIGNORE = [".px/*", "!.px/modules/"];
+
+// Ways a .gitignore may already leave .px out
+const IGNORED = [".px", ".px/", "/.px", "/.px/", ".px/*", "/.px/*"];
+
+// Create a directory under .px for px to write to, first adding
+// STATE_GITIGNORE to .gitignore unless it already ignores .px.
+// Synchronous, since run reports are written from the exit handler.
+export function stateDir(projectRoot: string, dir: string): string {
+    const gitignorePath = join(projectRoot, ".gitignore");
+    const content = existsSync(gitignorePath) ? readFileSync(gitignorePath, "utf-8") : "";
+    const lines = content.split("\n").map((line) => line.trim());
+
+    if (!lines.some((line) => IGNORED.includes(line))) {
+        const existing = content.trim() === "" ? "" : content.trimEnd() + "\n";
+        writeFileSync(gitignorePath, existing + STATE_GITIGNORE.join("\n") + "\n");
+    }
+
+    const path = join(projectRoot, dir);
+    mkdirSync(path, { recursive: true });
+    return path;
+}
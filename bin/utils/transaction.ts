@@ -0,0 +1,406 @@
+import boxen from "boxen";
+import { createHash } from "crypto";
+import {
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    rmdirSync,
+    unlinkSync,
+    writeFileSync,
+    writeSync,
+} from "fs";
+import { basename, dirname, join, relative, resolve } from "path";
+import { jsonField, jsonKeys } from "./json.ts";
+import { onShutdown } from "./process.ts";
+import { detectManager, findWorkspace, LOCKFILES } from "./project.ts";
+import { stateDir } from "./state.ts";
+
+// Completed px add and px remove runs, for px undo
+export const HISTORY_DIR = join(".px", "history");
+
+// How many entries to keep in .px/history
+const MAX_HISTORY = 20;
+
+// Files that may hold secrets (.env, .env.local), which never go into
+// .px/history. A failed run still restores them from memory.
+const SECRET_FILES = /^\.env(?:\..+)?$/;
+
+// A file as it was before the transaction touched it
+interface Snapshot {
+    // Relative to the project root
+    path: string;
+    // Content before, null if the file didn't exist
+    before: Buffer | null;
+}
+
+export interface Transaction {
+    projectRoot: string;
+    // The px command, without "px" ("add tailwind")
+    label: string;
+    startedAt: string;
+    // Keyed by absolute path
+    snapshots: Map<string, Snapshot>;
+    // Directories that didn't exist when the files in them were tracked
+    createdDirs: Set<string>;
+}
+
+// A completed transaction, as stored in .px/history
+export interface HistoryEntry {
+    label: string;
+    startedAt: string;
+    finishedAt: string;
+    files: {
+        path: string;
+        // Base64 content before, null if the transaction created the file
+        before: string | null;
+        // SHA-256 of the content it left, null if it deleted the file
+        after: string | null;
+        // A file that may hold secrets: neither is stored, and px undo
+        // leaves it as it is
+        secret?: boolean;
+    }[];
+    // Relative to the project root, deepest first
+    createdDirs: string[];
+    // Dependencies package.json gained (missing from entries px wrote before
+    // recording them)
+    installed?: string[];
+}
+
+// The transaction in progress; nested runTransaction calls join it
+let activeTransaction: Transaction | null = null;
+
+// Content of a file, or null if it doesn't exist
+function readContent(path: string): Buffer | null {
+    return existsSync(path) ? readFileSync(path) : null;
+}
+
+// SHA-256 of file content, null for a missing file
+export function contentHash(content: Buffer | null): string | null {
+    return content === null
+        ? null
+        : createHash("sha256").update(content).digest("hex");
+}
+
+// Dependency names in package.json content, none if it's missing or invalid
+function dependencyNames(content: Buffer | null): Set<string> {
+    if (content === null) return new Set();
+    try {
+        const packageJson: unknown = JSON.parse(content.toString("utf-8"));
+        return new Set([
+            ...jsonKeys(jsonField(packageJson, "dependencies")),
+            ...jsonKeys(jsonField(packageJson, "devDependencies")),
+        ]);
+    } catch {
+        return new Set();
+    }
+}
+
+// Snapshot files (relative to the project root) before they're changed.
+// Files already tracked keep their first snapshot.
+export function track(transaction: Transaction, files: string[]): void {
+    for (const file of files) {
+        const path = resolve(transaction.projectRoot, file);
+        if (transaction.snapshots.has(path)) continue;
+
+        const before = readContent(path);
+        transaction.snapshots.set(path, {
+            path: relative(transaction.projectRoot, path),
+            before,
+        });
+
+        if (before === null) {
+            for (let dir = dirname(path); !existsSync(dir); dir = dirname(dir)) {
+                transaction.createdDirs.add(dir);
+            }
+        }
+    }
+}
+
+// Snapshot a file about to change, if a transaction is running. Lets modules
+// that don't list their files up front (third-party ones) be rolled back too.
+export function trackChange(path: string): void {
+    if (activeTransaction) {
+        track(activeTransaction, [path]);
+    }
+}
+
+// package.json and every lockfile, in the project and at the workspace root
+function packageFiles(projectRoot: string): string[] {
+    const roots = new Set([projectRoot, findWorkspace(projectRoot)?.root ?? projectRoot]);
+    return Array.from(roots).flatMap((root) => [
+        join(root, "package.json"),
+        ...LOCKFILES.map(([file]) => join(root, file)),
+    ]);
+}
+
+// Remove directories if they're empty, deepest first
+function removeEmptyDirs(dirs: Iterable<string>): void {
+    for (const dir of Array.from(dirs).sort((a, b) => b.length - a.length)) {
+        try {
+            if (readdirSync(dir).length === 0) {
+                rmdirSync(dir);
+            }
+        } catch {
+            // Already gone
+        }
+    }
+}
+
+// Put every tracked file back the way it was. Returns the files that changed.
+export function rollback(transaction: Transaction): string[] {
+    const restored: string[] = [];
+
+    for (const [path, { path: file, before }] of transaction.snapshots) {
+        const current = readContent(path);
+        if (contentHash(current) === contentHash(before)) continue;
+
+        if (before === null) {
+            unlinkSync(path);
+        } else {
+            mkdirSync(dirname(path), { recursive: true });
+            writeFileSync(path, before);
+        }
+        restored.push(file);
+    }
+
+    removeEmptyDirs(transaction.createdDirs);
+    return restored;
+}
+
+// Tell the user what was put back. Written synchronously, since this can run
+// inside the exit handler.
+function printRollback(transaction: Transaction, restored: string[]): void {
+    const files = restored.map((file) => `   ${file}`).join("\n");
+    const sync = restored.some((file) => file.endsWith("package.json"))
+        ? `\n\nnode_modules may still hold packages installed before the failure.\nRun \`${detectManager(transaction.projectRoot)} install\` to sync it.`
+        : "";
+
+    writeSync(
+        2,
+        boxen(
+            restored.length > 0
+                ? `↩️  px ${transaction.label} did not finish, restored ${restored.length} file(s):\n\n${files}${sync}`
+                : `↩️  px ${transaction.label} did not finish, nothing to restore`,
+            {
+                padding: 1,
+                margin: 1,
+                borderStyle: "round",
+                borderColor: "yellow",
+            }
+        ) + "\n"
+    );
+}
+
+// Save a completed transaction to .px/history for px undo
+function recordHistory(transaction: Transaction): void {
+    // Before hashing, so .gitignore's new lines for .px count as this run's
+    let historyDir: string;
+    try {
+        historyDir = stateDir(transaction.projectRoot, HISTORY_DIR);
+    } catch {
+        return; // A read-only project just can't be undone
+    }
+
+    const files: HistoryEntry["files"] = [];
+
+    for (const [path, { path: file, before }] of transaction.snapshots) {
+        const after = contentHash(readContent(path));
+        if (after === contentHash(before)) continue;
+        if (SECRET_FILES.test(basename(file))) {
+            files.push({ path: file, before: null, after: null, secret: true });
+            continue;
+        }
+        files.push({
+            path: file,
+            before: before === null ? null : before.toString("base64"),
+            after,
+        });
+    }
+    if (files.length === 0) return;
+
+    const packageJson = resolve(transaction.projectRoot, "package.json");
+    const declared = dependencyNames(
+        transaction.snapshots.get(packageJson)?.before ?? null
+    );
+
+    const entry: HistoryEntry = {
+        label: transaction.label,
+        startedAt: transaction.startedAt,
+        finishedAt: new Date().toISOString(),
+        files,
+        createdDirs: Array.from(transaction.createdDirs)
+            .filter((dir) => existsSync(dir))
+            .sort((a, b) => b.length - a.length)
+            .map((dir) => relative(transaction.projectRoot, dir)),
+        installed: Array.from(dependencyNames(readContent(packageJson))).filter(
+            (name) => !declared.has(name)
+        ),
+    };
+
+    try {
+        writeFileSync(
+            join(
+                historyDir,
+                `${entry.startedAt.replace(/[:.]/g, "-")}-${entry.label.replace(/\s+/g, "-")}.json`
+            ),
+            JSON.stringify(entry, null, 2) + "\n"
+        );
+
+        const entries = readdirSync(historyDir)
+            .filter((file) => file.endsWith(".json"))
+            .sort();
+        for (const file of entries.slice(0, -MAX_HISTORY)) {
+            unlinkSync(join(historyDir, file));
+        }
+    } catch {
+        // A read-only project just can't be undone
+    }
+}
+
+// Run a px add (or px remove) module as a transaction. The given files (relative to the
+// project root), package.json and the lockfiles are snapshotted first, and
+// restored if the module throws, calls process.exit() or is interrupted.
+// Nested calls (px add shadcn running px add tailwind) join the outer one.
+export async function runTransaction<T>(
+    projectRoot: string,
+    label: string,
+    files: string[],
+    work: () => Promise<T>
+): Promise<T> {
+    if (activeTransaction) {
+        track(activeTransaction, files);
+        return work();
+    }
+
+    const transaction: Transaction = {
+        projectRoot,
+        label,
+        startedAt: new Date().toISOString(),
+        snapshots: new Map(),
+        createdDirs: new Set(),
+    };
+    track(transaction, [...files, ...packageFiles(projectRoot)]);
+    activeTransaction = transaction;
+
+    let finished = false;
+    const restore = () => {
+        if (finished) return;
+        finished = true;
+        printRollback(transaction, rollback(transaction));
+    };
+
+    // process.exit() deep inside a module, and Ctrl-C. Shutdown hooks run
+    // newest first, so a package manager started inside is stopped before this.
+    process.on("exit", restore);
+    const removeShutdownHook = onShutdown(restore);
+
+    try {
+        const result = await work();
+        finished = true;
+        recordHistory(transaction);
+        return result;
+    } catch (error) {
+        restore();
+        throw error;
+    } finally {
+        activeTransaction = null;
+        process.off("exit", restore);
+        removeShutdownHook();
+    }
+}
+
+// Completed transactions in .px/history, oldest first
+export function readHistory(
+    projectRoot: string
+): { file: string; entry: HistoryEntry }[] {
+    const historyDir = join(projectRoot, HISTORY_DIR);
+    if (!existsSync(historyDir)) return [];
+
+    return readdirSync(historyDir)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .flatMap((file) => {
+            try {
+                const path = join(historyDir, file);
+                return [{ file: path, entry: JSON.parse(readFileSync(path, "utf-8")) }];
+            } catch {
+                return []; // Unreadable entry
+            }
+        });
+}
+
+// Packages the last px add of a module installed. None if .px/history has no
+// record of it, or the module was removed since.
+export function installedBy(projectRoot: string, module: string): string[] {
+    for (const { entry } of readHistory(projectRoot).reverse()) {
+        const [command, ...modules] = entry.label.split(" ");
+        if (!modules.includes(module)) continue;
+        return command === "add" ? entry.installed ?? [] : [];
+    }
+    return [];
+}
+
+// Files a history entry left that have been changed since
+export function changedSince(projectRoot: string, entry: HistoryEntry): string[] {
+    return entry.files
+        .filter(
+            ({ path, after, secret }) =>
+                !secret &&
+                contentHash(readContent(resolve(projectRoot, path))) !== after
+        )
+        .map(({ path }) => path);
+}
+
+// Whether a .gitignore line ignores a file (relative to the project root)
+function ignores(line: string, file: string): boolean {
+    const pattern = line.trim().replace(/^\//, "").replace(/\/$/, "");
+    if (pattern === "" || pattern.startsWith("#") || pattern.startsWith("!")) {
+        return false;
+    }
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*");
+    // A pattern without a slash matches the name at any depth
+    return new RegExp(`^${source}$`).test(pattern.includes("/") ? file : basename(file));
+}
+
+// Files that may hold secrets a reverted entry left in place, and those of
+// them .gitignore had to be told about again
+export interface KeptSecrets {
+    kept: string[];
+    ignored: string[];
+}
+
+// Restore the files of a history entry to how they were before it, except
+// those that may hold secrets. Those stay, and stay covered by .gitignore
+// even when its lines for them are reverted.
+export function revertEntry(projectRoot: string, entry: HistoryEntry): KeptSecrets {
+    for (const { path, before, secret } of entry.files) {
+        if (secret) continue;
+        const target = resolve(projectRoot, path);
+        if (before === null) {
+            if (existsSync(target)) unlinkSync(target);
+        } else {
+            mkdirSync(dirname(target), { recursive: true });
+            writeFileSync(target, Buffer.from(before, "base64"));
+        }
+    }
+    removeEmptyDirs(entry.createdDirs.map((dir) => resolve(projectRoot, dir)));
+
+    const kept = entry.files
+        .filter(({ path, secret }) => secret && existsSync(resolve(projectRoot, path)))
+        .map(({ path }) => path);
+
+    const gitignorePath = resolve(projectRoot, ".gitignore");
+    const content = readContent(gitignorePath)?.toString("utf-8") ?? "";
+    const lines = content.split("\n");
+    const ignored = kept.filter((path) => !lines.some((line) => ignores(line, path)));
+    if (ignored.length > 0) {
+        const existing = content.trim() === "" ? "" : content.trimEnd() + "\n";
+        writeFileSync(gitignorePath, existing + ignored.join("\n") + "\n");
+    }
+
+    return { kept, ignored };
+}
@@ -0,0 +1,280 @@
+import { spawn } from "bun";
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { changeMode } from "./changes.ts";
+import { isInstalled } from "./imports.ts";
+import { loadAliases, resolveSpecifier } from "./resolve.ts";
+import { stateDir } from "./state.ts";
+
+// Registry lookups are cached here, relative to the project root
+export const REGISTRY_CACHE_FILE = join(".px", "cache", "registry.json");
+
+// How long a cached lookup stays valid
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface RegistryCacheEntry {
+    exists: boolean;
+    // Latest published version, when the package exists
+    version?: string;
+    checkedAt: number;
+}
+
+// Type checker errors about modules without type declarations
+const UNTYPED_PATTERNS = [
+    /error TS7016: Could not find a declaration file for module ['"]([^'"]+)['"]/g,
+    /error TS2307: Cannot find module ['"]([^'"]+)['"] or its corresponding type declarations/g,
+];
+
+// Extract the modules the type checker couldn't find types for
+export function findUntypedModules(output: string): Set<string> {
+    const modules = new Set<string>();
+
+    for (const pattern of UNTYPED_PATTERNS) {
+        for (const match of output.matchAll(pattern)) {
+            modules.add(match[1]!);
+        }
+    }
+
+    return modules;
+}
+
+// Name of the DefinitelyTyped package for a package ("@scope/pkg" -> "@types/scope__pkg")
+export function typesPackageName(name: string): string {
+    return name.startsWith("@")
+        ? `@types/${name.slice(1).replace("/", "__")}`
+        : `@types/${name}`;
+}
+
+// Check whether an installed package comes with its own type declarations
+export function shipsTypes(projectRoot: string, name: string): boolean {
+    let dir = projectRoot;
+    while (!existsSync(join(dir, "node_modules", name, "package.json"))) {
+        const parent = dirname(dir);
+        if (parent === dir) return false;
+        dir = parent;
+    }
+    const packageDir = join(dir, "node_modules", name);
+
+    try {
+        const packageJson = JSON.parse(
+            readFileSync(join(packageDir, "package.json"), "utf-8")
+        );
+        if (packageJson.types || packageJson.typings) {
+            return true;
+        }
+        // "exports": { ".": { "types": "./index.d.ts", ... } }
+        if (JSON.stringify(packageJson.exports ?? {}).includes('"types"')) {
+            return true;
+        }
+    } catch {
+        // Unreadable package.json, fall through to the file check
+    }
+
+    return existsSync(join(packageDir, "index.d.ts"));
+}
+
+// Read the registry cache, or an empty one
+function readRegistryCache(projectRoot: string): Record<string, RegistryCacheEntry> {
+    try {
+        return JSON.parse(
+            readFileSync(join(projectRoot, REGISTRY_CACHE_FILE), "utf-8")
+        );
+    } catch {
+        return {};
+    }
+}
+
+// The registry package managers fetch from
+function registryUrl(): string {
+    return (process.env.npm_config_registry ?? "https://registry.npmjs.org").replace(/\/$/, "");
+}
+
+// Check npm's cache (~/.npm/_cacache) for the package's registry metadata.
+// Entries are indexed by the SHA-256 of the request they cache.
+function inNpmCache(name: string): boolean {
+    const cacheDir = process.env.npm_config_cache ?? join(homedir(), ".npm");
+    const key = `make-fetch-happen:request-cache:${registryUrl()}/${name.replace("/", "%2f")}`;
+    const hash = createHash("sha256").update(key).digest("hex");
+
+    const bucket = join(
+        cacheDir,
+        "_cacache",
+        "index-v5",
+        hash.slice(0, 2),
+        hash.slice(2, 4),
+        hash.slice(4)
+    );
+
+    try {
+        // Each line is "<sha1>\t<entry>"; the last one for the key wins, and
+        // a null integrity means it was removed
+        const entries = readFileSync(bucket, "utf-8")
+            .split("\n")
+            .filter(Boolean)
+            .map(
+                (line) =>
+                    JSON.parse(line.slice(line.indexOf("\t") + 1)) as {
+                        key: string;
+                        integrity: string | null;
+                    }
+            )
+            .filter((entry) => entry.key === key);
+        return entries.length > 0 && entries[entries.length - 1]!.integrity !== null;
+    } catch {
+        return false;
+    }
+}
+
+// Check bun's install cache for any downloaded version of the package
+function inBunCache(name: string): boolean {
+    const cacheDir =
+        process.env.BUN_INSTALL_CACHE_DIR ??
+        join(process.env.BUN_INSTALL ?? join(homedir(), ".bun"), "install", "cache");
+    const [scope, base] = name.split("/") as [string, string];
+
+    try {
+        return readdirSync(join(cacheDir, scope)).some((entry) => entry.startsWith(`${base}@`));
+    } catch {
+        return false;
+    }
+}
+
+// Look a package up in px's registry cache, then in the package managers'
+// local caches. Only asks the registry itself when online is set
+// (px run --types-registry). Returns null if it can't tell.
+export async function registryEntry(
+    projectRoot: string,
+    name: string,
+    online: boolean = false
+): Promise<RegistryCacheEntry | null> {
+    const cache = readRegistryCache(projectRoot);
+    const cached = cache[name];
+    if (cached && Date.now() - cached.checkedAt < CACHE_TTL_MS) {
+        return cached;
+    }
+
+    // The local caches only know packages that exist, not ones that don't
+    if (inNpmCache(name) || inBunCache(name)) {
+        return { exists: true, checkedAt: Date.now() };
+    }
+    if (!online) {
+        return null;
+    }
+
+    let entry: RegistryCacheEntry;
+    try {
+        const response = await fetch(
+            `${registryUrl()}/${name.replace("/", "%2f")}`,
+            {
+                // Abbreviated metadata is all we need
+                headers: { Accept: "application/vnd.npm.install-v1+json" },
+                signal: AbortSignal.timeout(5000),
+            }
+        );
+        if (response.status === 404) {
+            entry = { exists: false, checkedAt: Date.now() };
+        } else if (response.ok) {
+            const metadata = (await response.json()) as {
+                "dist-tags"?: { latest?: string };
+            };
+            entry = {
+                exists: true,
+                version: metadata["dist-tags"]?.latest,
+                checkedAt: Date.now(),
+            };
+        } else {
+            return null;
+        }
+    } catch {
+        return null; // Offline
+    }
+
+    // A dry run writes nothing, so it looks the package up again next time
+    if (changeMode() === "dry-run") {
+        return entry;
+    }
+
+    cache[name] = entry;
+    try {
+        stateDir(projectRoot, dirname(REGISTRY_CACHE_FILE));
+        writeFileSync(
+            join(projectRoot, REGISTRY_CACHE_FILE),
+            JSON.stringify(cache, null, 2) + "\n"
+        );
+    } catch {
+        // Read-only project, look it up again next time
+    }
+
+    return entry;
+}
+
+// Run the TypeScript compiler without emitting and collect its output
+export async function runTypeCheck(
+    projectRoot: string,
+    runner: string[]
+): Promise<string> {
+    const proc = spawn({
+        cmd: [...runner, "tsc", "--noEmit", "--pretty", "false"],
+        cwd: projectRoot,
+        stdout: "pipe",
+        stderr: "pipe",
+    });
+
+    const [stdout, stderr] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+    ]);
+    await proc.exited;
+
+    return stdout + "\n" + stderr;
+}
+
+// Decide which @types packages to install for the modules the type checker flagged
+export async function findMissingTypes(
+    projectRoot: string,
+    modules: Iterable<string>,
+    online: boolean = false
+): Promise<{ install: string[]; skipped: { name: string; reason: string }[] }> {
+    const aliases = loadAliases(projectRoot);
+    const install = new Set<string>();
+    const skipped: { name: string; reason: string }[] = [];
+
+    const packages = new Set<string>();
+    for (const specifier of modules) {
+        const resolved = resolveSpecifier(specifier, aliases);
+        if (resolved.kind === "package" && !resolved.name.startsWith("@types/")) {
+            packages.add(resolved.name);
+        }
+    }
+
+    for (const name of packages) {
+        const typesName = typesPackageName(name);
+
+        if (!isInstalled(projectRoot, name)) {
+            // The missing package itself is px run's usual business
+            skipped.push({ name, reason: "not installed" });
+        } else if (shipsTypes(projectRoot, name)) {
+            skipped.push({ name, reason: "ships its own types" });
+        } else if (isInstalled(projectRoot, typesName)) {
+            skipped.push({ name, reason: `${typesName} already installed` });
+        } else {
+            const entry = await registryEntry(projectRoot, typesName, online);
+            if (entry === null) {
+                skipped.push({
+                    name,
+                    reason: online
+                        ? "registry unreachable"
+                        : `${typesName} not in a local cache (--types-registry asks the registry)`,
+                });
+            } else if (!entry.exists) {
+                skipped.push({ name, reason: `no ${typesName} on the registry` });
+            } else {
+                install.add(typesName);
+            }
+        }
+    }
+
+    return { install: Array.from(install), skipped };
+}